@@ -1,7 +1,7 @@
 /// <reference types="bun-types" />
 //
 // Example 02 — an invoice, exercising rows, columns, grow/fixed sizing,
-// nested layout, and text alignment. No external assets.
+// nested layout, text alignment and the table helper. No external assets.
 //
 // Run: bun run examples/02-invoice.ts
 // Output: examples/output/02-invoice.pdf
@@ -70,54 +70,35 @@ const pdf = await Pardal.createDocument(
           // Divider.
           p.rect({ width: Sizing.grow(), height: Sizing.fixed(2), backgroundColor: c.line });
 
-          // Table header.
-          p.row(
-            { width: Sizing.grow(), height: Sizing.fit(), padding: 8 },
-            () => {
-              p.text("Item", { fontSize: 12, fillColor: c.muted, width: Sizing.grow() });
-              p.text("Qty", {
-                fontSize: 12,
-                fillColor: c.muted,
-                width: Sizing.fixed(60),
-                textAlignment: TextAlignment.RIGHT,
-              });
-              p.text("Amount", {
-                fontSize: 12,
-                fillColor: c.muted,
-                width: Sizing.fixed(100),
-                textAlignment: TextAlignment.RIGHT,
-              });
-            }
-          );
-
-          // Table rows (zebra striped).
-          for (let i = 0; i < items.length; i++) {
-            const it = items[i];
-            p.row(
+          // Items table: consistent column widths, header styling and zebra stripes.
+          p.table<Item>({
+            columns: [
+              { header: "Item", key: "name" },
+              { header: "Qty", key: "qty", width: Sizing.fixed(60), align: TextAlignment.RIGHT },
               {
-                width: Sizing.grow(),
-                height: Sizing.fit(),
-                padding: 8,
-                backgroundColor: i % 2 === 0 ? c.zebra : c.page,
-                cornerRadius: 4,
+                header: "Amount",
+                width: Sizing.fixed(100),
+                align: TextAlignment.RIGHT,
+                cell: (it) =>
+                  p.text(money(it.qty * it.price), {
+                    fontSize: 13,
+                    color: c.ink,
+                    width: Sizing.grow(),
+                    textAlignment: TextAlignment.RIGHT,
+                  }),
               },
-              () => {
-                p.text(it.name, { fontSize: 13, fillColor: c.ink, width: Sizing.grow() });
-                p.text(String(it.qty), {
-                  fontSize: 13,
-                  fillColor: c.ink,
-                  width: Sizing.fixed(60),
-                  textAlignment: TextAlignment.RIGHT,
-                });
-                p.text(money(it.qty * it.price), {
-                  fontSize: 13,
-                  fillColor: c.ink,
-                  width: Sizing.fixed(100),
-                  textAlignment: TextAlignment.RIGHT,
-                });
-              }
-            );
-          }
+            ],
+            rows: items,
+            fontSize: 13,
+            color: c.ink,
+            headerFontSize: 12,
+            headerColor: c.muted,
+            headerBold: false,
+            backgroundColor: c.page,
+            stripeColor: c.zebra,
+            stripeFirstRow: true,
+            rowCornerRadius: 4,
+          });
 
           p.rect({ width: Sizing.grow(), height: Sizing.fixed(2), backgroundColor: c.line });
 
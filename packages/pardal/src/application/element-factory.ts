@@ -4,6 +4,7 @@ import type Pardal from "~/index";
 import {
   Direction,
   type ElementType,
+  type GridLayout,
   type ImageElementConfig,
   ImageFitMode,
   LayoutAlignmentX,
@@ -13,6 +14,8 @@ import {
   type TextElementConfig,
   TextWrapMode,
 } from "../domain/model/types";
+import { resolveBaseLevel } from "../domain/utils/bidi";
+import { borderWidths, parseBorders } from "../domain/utils/border";
 import { parsePadding } from "../domain/utils/padding";
 
 /**
@@ -30,7 +33,17 @@ export function createElement(
   // em vez de branco — do contrário todo container/texto sem `backgroundColor`
   // desenharia um retângulo branco por baixo.
   const backgroundColor = config.backgroundColor || "transparent";
-  const padding = parsePadding(config.padding);
+
+  // As bordas ocupam espaço como o padding: o conteúdo fica dentro delas
+  const borders = parseBorders(config);
+  const declaredPadding = parsePadding(config.padding);
+  const widths = borderWidths(borders);
+  const padding = {
+    top: declaredPadding.top + widths.top,
+    right: declaredPadding.right + widths.right,
+    bottom: declaredPadding.bottom + widths.bottom,
+    left: declaredPadding.left + widths.left,
+  };
 
   // Processamento especial para texto
   let textConfig: TextElementConfig | undefined;
@@ -42,14 +55,26 @@ export function createElement(
         color: config.color || config.fillColor || config.backgroundColor || "#000000",
         fontSize: config.fontSize || 16,
         wrapMode: config.wrapMode || TextWrapMode.WORDS,
-        textAlignment: config.textAlignment || TextAlignment.LEFT,
+        // Sem alinhamento explícito, parágrafos da direita para a esquerda alinham à direita
+        textAlignment:
+          config.textAlignment ||
+          (resolveBaseLevel(config.text, config.textDirection) === 1
+            ? TextAlignment.RIGHT
+            : TextAlignment.LEFT),
         lineHeight: config.lineHeight,
         lineSpacingFactor: config.lineSpacingFactor,
         letterSpacing: config.letterSpacing,
+        maxLines: config.maxLines,
+        overflow: config.overflow,
+        direction: config.textDirection,
+        hyphens: config.hyphens,
+        lang: config.lang,
+        overflowWrap: config.overflowWrap,
         fontId: config.fontId,
         fontFamily: config.fontFamily,
         fontWeight: config.fontWeight,
         fontStyle: config.fontStyle,
+        spans: config.spans,
       };
     }
     // Para compatibilidade com código existente
@@ -62,7 +87,11 @@ export function createElement(
         color: config.text.color || config.fillColor || config.backgroundColor || "#000000",
         fontSize: config.text.fontSize || 16,
         wrapMode: config.text.wrapMode || TextWrapMode.WORDS,
-        textAlignment: config.text.textAlignment || TextAlignment.LEFT,
+        textAlignment:
+          config.text.textAlignment ||
+          (resolveBaseLevel(config.text.content || "", config.text.direction) === 1
+            ? TextAlignment.RIGHT
+            : TextAlignment.LEFT),
         lineSpacingFactor: config.text.lineSpacingFactor || config.lineSpacingFactor,
       };
     }
@@ -112,8 +141,22 @@ export function createElement(
     // Usar o campo childAlignment se fornecido
     childAlignment:
       config.childAlignment || config.layout?.childAlignment || defaultLayoutConfig.childAlignment,
+    wrap: config.wrap !== undefined ? config.wrap : config.layout?.wrap,
+    lineGap: config.lineGap !== undefined ? config.lineGap : config.layout?.lineGap,
   };
 
+  // Grade: o gap vale para as duas direções, e columnGap/rowGap o sobrescrevem
+  let grid: GridLayout | undefined;
+  if (config.columns) {
+    const gap = config.gap !== undefined ? config.gap : finalLayoutConfig.childGap;
+    grid = {
+      columns: config.columns,
+      rows: config.rows || [],
+      columnGap: config.columnGap !== undefined ? config.columnGap : gap,
+      rowGap: config.rowGap !== undefined ? config.rowGap : gap,
+    };
+  }
+
   // Configuração completa do elemento
   const element: LayoutElement = {
     id: config.id || `element-${currentContext.generation}-${currentContext.layoutElements.length}`,
@@ -122,8 +165,17 @@ export function createElement(
     dimensions: { width: 0, height: 0 },
     minDimensions: { width: 0, height: 0 },
     layoutConfig: finalLayoutConfig,
+    alignCells: config.alignCells,
+    grid,
+    colSpan: config.colSpan,
+    rowSpan: config.rowSpan,
+    headerRows: config.headerRows,
+    alignSelf: config.alignSelf,
+    zIndex: config.zIndex,
     backgroundColor,
     cornerRadius: config.cornerRadius,
+    borders,
+    shadow: config.shadow,
     elementType,
     textConfig,
     imageConfig,
@@ -0,0 +1,407 @@
+import { Sizing } from "~/domain/layout/sizing";
+import { type MarkdownTheme, type TableColumn, TextAlignment } from "~/domain/model/types";
+import type Pardal from "~/index";
+
+// Bloco de um documento Markdown
+type MarkdownBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: "quote"; blocks: MarkdownBlock[] }
+  | { type: "code"; lines: string[] }
+  | { type: "rule" }
+  | { type: "table"; header: string[]; align: (TextAlignment | undefined)[]; rows: string[][] };
+
+type ResolvedTheme = Required<MarkdownTheme>;
+
+const DEFAULT_THEME: ResolvedTheme = {
+  fontSize: 12,
+  color: "#111827",
+  headingSizes: [26, 21, 17, 15, 13, 12],
+  headingColor: "",
+  headingFontWeight: "bold",
+  blockGap: 10,
+  listIndent: 18,
+  bullet: "•",
+  quoteColor: "#4B5563",
+  quoteBorderColor: "#D1D5DB",
+  codeFontSize: 0,
+  codeColor: "",
+  codeBackgroundColor: "#F3F4F6",
+  ruleColor: "#E5E7EB",
+  tableBorderColor: "#D1D5DB",
+  tableHeaderBackgroundColor: "#F9FAFB",
+};
+
+// Largura de um caractere das fontes monoespaçadas padrão (Courier), em ems
+const MONOSPACE_ADVANCE = 0.6;
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TABLE_SEPARATOR = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+
+/**
+ * Cria os elementos de um documento Markdown (títulos, parágrafos, listas, citações,
+ * blocos de código, linhas horizontais e tabelas) dentro de uma coluna
+ * O texto dos blocos continua passando pelo Markdown em linha de `text()`
+ * (negrito, itálico, código, links...).
+ */
+export function createMarkdown(pardal: Pardal, source: string, theme: MarkdownTheme = {}): void {
+  const resolved: ResolvedTheme = { ...DEFAULT_THEME, ...theme };
+  resolved.headingColor = resolved.headingColor || resolved.color;
+  resolved.codeColor = resolved.codeColor || resolved.color;
+  resolved.codeFontSize = resolved.codeFontSize || resolved.fontSize * 0.9;
+
+  const blocks = parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"));
+
+  pardal.column({ width: Sizing.grow(), height: Sizing.fit(), childGap: resolved.blockGap }, () =>
+    renderBlocks(pardal, blocks, resolved)
+  );
+}
+
+/**
+ * Separa as linhas do documento em blocos
+ */
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = expandTabs(lines[i]);
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    // Bloco de código cercado: conteúdo literal até a cerca de fechamento
+    const fence = line.match(FENCE);
+    if (fence) {
+      const indent = fence[1].length;
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[2])) {
+        code.push(expandTabs(lines[i]).replace(new RegExp(`^ {0,${indent}}`), ""));
+        i++;
+      }
+      blocks.push({ type: "code", lines: code });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] || "" });
+      i++;
+      continue;
+    }
+
+    // Verificada antes das listas: "- - -" e "***" são linhas horizontais
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      i = parseTable(lines, i, blocks);
+      continue;
+    }
+
+    // Parágrafo: linhas seguidas até uma linha em branco ou o início de outro bloco
+    let text = line.trim();
+    i++;
+    while (i < lines.length && lines[i].trim() !== "" && !startsBlock(lines, i)) {
+      // Dois espaços (ou uma barra invertida) no fim da linha forçam a quebra
+      const hardBreak = / {2,}$|\\$/.test(lines[i - 1]);
+      text = `${text.replace(/\\$/, "")}${hardBreak ? "\n" : " "}${lines[i].trim()}`;
+      i++;
+    }
+    blocks.push({ type: "paragraph", text });
+  }
+
+  return blocks;
+}
+
+/**
+ * Lê uma lista a partir da linha `start` e retorna o índice da primeira linha depois dela
+ * Linhas recuadas até o conteúdo do item (incluindo listas aninhadas) pertencem ao item.
+ */
+function parseList(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const first = expandTabs(lines[start]).match(LIST_ITEM);
+  if (!first) return start + 1;
+
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = expandTabs(lines[i]);
+    const item = line.match(LIST_ITEM);
+
+    if (item && item[1].length === baseIndent && /\d/.test(item[2]) === ordered) {
+      contentIndent = baseIndent + item[2].length + Math.max(1, item[3].length);
+      items.push([item[4]]);
+      i++;
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    if (line.trim() === "") {
+      // Linha em branco continua a lista apenas se o próximo conteúdo ainda pertence a ela
+      let next = i + 1;
+      while (next < lines.length && lines[next].trim() === "") next++;
+      const following = next < lines.length ? expandTabs(lines[next]) : "";
+      const nextItem = following.match(LIST_ITEM);
+      const continues =
+        following.length - following.trimStart().length >= contentIndent ||
+        (!!nextItem && nextItem[1].length === baseIndent && /\d/.test(nextItem[2]) === ordered);
+      if (!continues || next >= lines.length) break;
+      items[items.length - 1].push("");
+      i++;
+      continue;
+    }
+
+    if (indent > baseIndent) {
+      items[items.length - 1].push(line.slice(Math.min(indent, contentIndent)));
+      i++;
+      continue;
+    }
+
+    break;
+  }
+
+  blocks.push({
+    type: "list",
+    ordered,
+    start: ordered ? Number.parseInt(first[2], 10) : 1,
+    items: items.map((content) => parseBlocks(content)),
+  });
+  return i;
+}
+
+/**
+ * Lê uma tabela (linha de cabeçalho, linha separadora e linhas do corpo)
+ */
+function parseTable(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const header = splitTableRow(lines[start]);
+  const align = splitTableRow(lines[start + 1]).map((cell) => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return TextAlignment.CENTER;
+    if (right) return TextAlignment.RIGHT;
+    return left ? TextAlignment.LEFT : undefined;
+  });
+
+  const rows: string[][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() !== "" && lines[i].includes("|")) {
+    const cells = splitTableRow(lines[i]);
+    rows.push(header.map((_, column) => cells[column] || ""));
+    i++;
+  }
+
+  blocks.push({ type: "table", header, align, rows });
+  return i;
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].includes("|") &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes("-") &&
+    TABLE_SEPARATOR.test(lines[index + 1])
+  );
+}
+
+// Verdadeiro quando a linha inicia um bloco que interrompe um parágrafo
+function startsBlock(lines: string[], index: number): boolean {
+  const line = expandTabs(lines[index]);
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function expandTabs(line: string): string {
+  return line.replace(/\t/g, "    ");
+}
+
+/**
+ * Cria os elementos de cada bloco no container atual
+ */
+function renderBlocks(pardal: Pardal, blocks: MarkdownBlock[], theme: ResolvedTheme): void {
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        pardal.text(block.text, {
+          width: Sizing.grow(),
+          fontSize: theme.headingSizes[block.level - 1] || theme.fontSize,
+          fontWeight: theme.headingFontWeight,
+          color: theme.headingColor,
+        });
+        break;
+
+      case "paragraph":
+        pardal.text(block.text, {
+          width: Sizing.grow(),
+          fontSize: theme.fontSize,
+          color: theme.color,
+        });
+        break;
+
+      case "list":
+        renderList(pardal, block, theme);
+        break;
+
+      case "quote":
+        pardal.column(
+          {
+            width: Sizing.grow(),
+            height: Sizing.fit(),
+            childGap: theme.blockGap,
+            borderLeft: { width: 3, color: theme.quoteBorderColor },
+            padding: { left: 12, right: 0, top: 0, bottom: 0 },
+          },
+          () =>
+            renderBlocks(pardal, block.blocks, {
+              ...theme,
+              color: theme.quoteColor,
+              headingColor: theme.quoteColor,
+            })
+        );
+        break;
+
+      case "code":
+        renderCode(pardal, block.lines, theme);
+        break;
+
+      case "rule":
+        pardal.rect({
+          width: Sizing.grow(),
+          height: Sizing.fixed(1),
+          backgroundColor: theme.ruleColor,
+        });
+        break;
+
+      case "table": {
+        const columns: TableColumn<string[]>[] = block.header.map((header, index) => ({
+          header,
+          key: index,
+          align: block.align[index],
+        }));
+        pardal.table<string[]>({
+          columns,
+          rows: block.rows,
+          fontSize: theme.fontSize,
+          color: theme.color,
+          headerBackgroundColor: theme.tableHeaderBackgroundColor,
+          borderWidth: 1,
+          borderColor: theme.tableBorderColor,
+          cellPadding: 6,
+        });
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Lista: cada item é uma linha com o marcador em uma coluna de largura fixa
+ * e o conteúdo do item (que pode ter vários blocos e listas aninhadas) ao lado
+ */
+function renderList(
+  pardal: Pardal,
+  list: Extract<MarkdownBlock, { type: "list" }>,
+  theme: ResolvedTheme
+): void {
+  pardal.column(
+    { width: Sizing.grow(), height: Sizing.fit(), childGap: theme.blockGap / 2 },
+    () => {
+      list.items.forEach((item, index) => {
+        pardal.row({ width: Sizing.grow(), height: Sizing.fit() }, () => {
+          pardal.text(list.ordered ? `${list.start + index}.` : theme.bullet, {
+            width: Sizing.fixed(theme.listIndent),
+            fontSize: theme.fontSize,
+            color: theme.color,
+          });
+          pardal.column(
+            { width: Sizing.grow(), height: Sizing.fit(), childGap: theme.blockGap / 2 },
+            () => renderBlocks(pardal, item, theme)
+          );
+        });
+      });
+    }
+  );
+}
+
+/**
+ * Bloco de código: uma linha de texto literal por linha do código, em fonte monoespaçada
+ * O recuo vira padding, já que a quebra de linhas descarta os espaços no início da linha.
+ */
+function renderCode(pardal: Pardal, lines: string[], theme: ResolvedTheme): void {
+  const fontSize = theme.codeFontSize;
+  const fontFamily = pardal.getFonts()?.monospace || "Courier";
+
+  pardal.column(
+    {
+      width: Sizing.grow(),
+      height: Sizing.fit(),
+      padding: 8,
+      childGap: fontSize * 0.3,
+      cornerRadius: 4,
+      backgroundColor: theme.codeBackgroundColor,
+    },
+    () => {
+      for (const line of lines) {
+        const content = line.trimStart();
+        if (content === "") {
+          pardal.rect({ width: Sizing.grow(), height: Sizing.fixed(fontSize) });
+          continue;
+        }
+
+        const indent = (line.length - content.length) * fontSize * MONOSPACE_ADVANCE;
+        pardal.richText([{ text: content, fontFamily }], {
+          width: Sizing.grow(),
+          fontSize,
+          color: theme.codeColor,
+          padding: { left: indent, right: 0, top: 0, bottom: 0 },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,160 @@
+import { Sizing } from "~/domain/layout/sizing";
+import {
+  type CornerRadius,
+  LayoutAlignmentX,
+  LayoutAlignmentY,
+  SizingType,
+  type TableColumn,
+  type TableConfig,
+  TextAlignment,
+} from "~/domain/model/types";
+import type Pardal from "~/index";
+
+const DEFAULT_CELL_PADDING = 8;
+const DEFAULT_FONT_SIZE = 12;
+
+/**
+ * Cria uma tabela a partir de definições de coluna e dados de linha
+ * A tabela é uma coluna de linhas; cada célula é um container com o dimensionamento
+ * da sua coluna. O container da tabela alinha as células (`alignCells`), então
+ * colunas FIT têm a mesma largura em todas as linhas e as células de uma linha,
+ * a mesma altura. As linhas de grade são o fundo da tabela aparecendo entre as células.
+ * Na paginação automática, a linha de cabeçalho é repetida em cada página de continuação.
+ */
+export function createTable<T>(pardal: Pardal, config: TableConfig<T>): void {
+  const borderWidth = config.borderWidth || 0;
+  const showHeader = config.showHeader !== undefined ? config.showHeader : true;
+  const repeatHeader = config.repeatHeader !== undefined ? config.repeatHeader : true;
+  const stripeParity = config.stripeFirstRow ? 0 : 1;
+
+  pardal.column(
+    {
+      id: config.id,
+      width: config.width || Sizing.grow(),
+      height: Sizing.fit(),
+      backgroundColor: borderWidth > 0 ? config.borderColor || "#000000" : undefined,
+      padding: borderWidth,
+      childGap: borderWidth,
+      alignCells: true,
+      headerRows: showHeader && repeatHeader ? 1 : 0,
+    },
+    () => {
+      if (showHeader) {
+        createHeaderRow(pardal, config, borderWidth);
+      }
+
+      config.rows.forEach((row, rowIndex) => {
+        const backgroundColor =
+          rowIndex % 2 === stripeParity && config.stripeColor
+            ? config.stripeColor
+            : config.backgroundColor;
+
+        pardal.row({ width: Sizing.grow(), height: Sizing.fit(), childGap: borderWidth }, () => {
+          for (const [columnIndex, column] of config.columns.entries()) {
+            createCell(pardal, config, columnIndex, backgroundColor, () => {
+              if (column.cell) {
+                column.cell(row, rowIndex);
+                return;
+              }
+
+              const value = column.key !== undefined ? row[column.key] : undefined;
+              pardal.text(value === undefined || value === null ? "" : String(value), {
+                width: cellContentWidth(column),
+                fontSize: config.fontSize || DEFAULT_FONT_SIZE,
+                color: config.color,
+                textAlignment: column.align,
+              });
+            });
+          }
+        });
+      });
+    }
+  );
+}
+
+/**
+ * Linha de cabeçalho com o estilo próprio do cabeçalho
+ */
+function createHeaderRow<T>(pardal: Pardal, config: TableConfig<T>, borderWidth: number): void {
+  const bold = config.headerBold !== undefined ? config.headerBold : true;
+
+  pardal.row({ width: Sizing.grow(), height: Sizing.fit(), childGap: borderWidth }, () => {
+    for (const [columnIndex, column] of config.columns.entries()) {
+      createCell(pardal, config, columnIndex, config.headerBackgroundColor, () => {
+        pardal.text(column.header || "", {
+          width: cellContentWidth(column),
+          fontSize: config.headerFontSize || config.fontSize || DEFAULT_FONT_SIZE,
+          fontWeight: bold ? "bold" : undefined,
+          color: config.headerColor || config.color,
+          textAlignment: column.align,
+        });
+      });
+    }
+  });
+}
+
+/**
+ * Célula: container com o dimensionamento da coluna e o alinhamento do conteúdo
+ */
+function createCell<T>(
+  pardal: Pardal,
+  config: TableConfig<T>,
+  columnIndex: number,
+  backgroundColor: string | undefined,
+  children: () => void
+): void {
+  const column = config.columns[columnIndex];
+
+  pardal.column(
+    {
+      width: column.width || Sizing.grow(),
+      height: Sizing.fit(),
+      padding: config.cellPadding !== undefined ? config.cellPadding : DEFAULT_CELL_PADDING,
+      backgroundColor,
+      cornerRadius: cellCornerRadius(config.rowCornerRadius, columnIndex, config.columns.length),
+      childAlignment: { x: alignmentX(column.align), y: LayoutAlignmentY.TOP },
+    },
+    children
+  );
+}
+
+// Os cantos arredondados da linha ficam nas bordas externas da primeira e da última célula
+function cellCornerRadius(
+  radius: CornerRadius | undefined,
+  columnIndex: number,
+  columnCount: number
+): CornerRadius | undefined {
+  if (radius === undefined) {
+    return undefined;
+  }
+
+  const radii =
+    typeof radius === "number"
+      ? { topLeft: radius, topRight: radius, bottomRight: radius, bottomLeft: radius }
+      : radius;
+  const first = columnIndex === 0;
+  const last = columnIndex === columnCount - 1;
+
+  return {
+    topLeft: first ? radii.topLeft : undefined,
+    bottomLeft: first ? radii.bottomLeft : undefined,
+    topRight: last ? radii.topRight : undefined,
+    bottomRight: last ? radii.bottomRight : undefined,
+  };
+}
+
+// Em colunas FIT o texto dita a largura; nas demais ele ocupa toda a célula e quebra linhas
+function cellContentWidth<T>(column: TableColumn<T>) {
+  return column.width?.type === SizingType.FIT ? Sizing.fit() : Sizing.grow();
+}
+
+function alignmentX(align: TextAlignment | undefined): LayoutAlignmentX {
+  switch (align) {
+    case TextAlignment.CENTER:
+      return LayoutAlignmentX.CENTER;
+    case TextAlignment.RIGHT:
+      return LayoutAlignmentX.RIGHT;
+    default:
+      return LayoutAlignmentX.LEFT;
+  }
+}
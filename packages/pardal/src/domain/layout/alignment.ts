@@ -92,6 +92,37 @@ export const Alignment = {
     };
   },
 
+  /**
+   * Distribui o espaço livre entre os filhos no eixo principal (SPACE_BETWEEN), com os
+   * filhos no início do eixo perpendicular
+   */
+  spaceBetween(): ChildAlignment {
+    return {
+      x: LayoutAlignmentX.SPACE_BETWEEN,
+      y: LayoutAlignmentY.SPACE_BETWEEN,
+    };
+  },
+
+  /**
+   * Distribui o espaço livre em volta de cada filho no eixo principal (SPACE_AROUND)
+   */
+  spaceAround(): ChildAlignment {
+    return {
+      x: LayoutAlignmentX.SPACE_AROUND,
+      y: LayoutAlignmentY.SPACE_AROUND,
+    };
+  },
+
+  /**
+   * Distribui o espaço livre em partes iguais entre os filhos e nas pontas (SPACE_EVENLY)
+   */
+  spaceEvenly(): ChildAlignment {
+    return {
+      x: LayoutAlignmentX.SPACE_EVENLY,
+      y: LayoutAlignmentY.SPACE_EVENLY,
+    };
+  },
+
   /**
    * Cria um alinhamento personalizado com os valores especificados
    */
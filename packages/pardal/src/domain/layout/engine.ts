@@ -1,3 +1,4 @@
+import { gridCells, gridContentSize, sizeGridItems } from "~/domain/layout/grid";
 import type { LayoutElement, MeasuredWord, WrappedTextLine } from "~/domain/model/element";
 import type { PardalContext } from "~/domain/model/types";
 // Importações
@@ -9,19 +10,58 @@ import {
   type FontOptions,
   LayoutAlignmentX,
   LayoutAlignmentY,
+  type LayoutConfig,
+  type RegisteredFont,
+  type SizingAxis,
   SizingType,
   TextAlignment,
+  type TextElementConfig,
+  type TextHyphens,
+  type TextOverflowWrap,
+  type TextStyle,
   type Vector2,
 } from "~/domain/model/types";
 import {
   createCircleCommand,
   createImageCommandFromConfig,
   createRectangleCommand,
+  createShadowCommand,
   createTextCommandFromConfig,
 } from "~/domain/rendering/commands";
+import type { RenderCommand, TextLineLayout } from "~/domain/rendering/commands";
+import {
+  bidiClassOf,
+  hasRightToLeft,
+  reorderVisually,
+  resolveBaseLevel,
+  resolveBidiLevels,
+} from "~/domain/utils/bidi";
+import {
+  hasCornerRadius,
+  resolveCornerRadii,
+  spreadCornerRadii,
+} from "~/domain/utils/corner-radius";
 import { isEmoji } from "~/domain/utils/emoji";
-import { parseText } from "~/domain/utils/text";
+import {
+  applyRegisteredFonts,
+  findRegisteredFont,
+  fontAscent,
+  normalizeFontWeight,
+  splitByFontCoverage,
+  standardFontVariant,
+} from "~/domain/utils/font";
+import { findHyphenation } from "~/domain/utils/hyphenation";
+import { splitAtBreakOpportunities } from "~/domain/utils/linebreak";
+import {
+  alignTextLine,
+  isWhitespace,
+  parseSpans,
+  parseText,
+  wordFontSize,
+} from "~/domain/utils/text";
 import type Pardal from "~/index";
+import { getPageContentBox, paginateRenderCommands } from "./pagination";
+import { applyStackingOrder } from "./stacking";
 
 /**
  * Medir dimensões de texto usando PDFKit
@@ -30,7 +70,8 @@ import type Pardal from "~/index";
 function measureTextDimensions(
   context: PardalContext,
   textContent: string,
-  fontSize = 16
+  fontSize = 16,
+  letterSpacing = 0
 ): { width: number; height: number } {
   if (!textContent || textContent.length === 0) {
     return { width: 0, height: 0 };
@@ -46,7 +87,8 @@ function measureTextDimensions(
 
     tempDoc.font(fontFamily).fontSize(fontSize);
 
-    const width = tempDoc.widthOfString(textContent);
+    const width =
+      tempDoc.widthOfString(textContent) + letterSpacingWidth(textContent, letterSpacing);
 
     // Liberar recursos
     tempDoc.end();
@@ -61,73 +103,275 @@ function measureTextDimensions(
   }
 }
 
+/**
+ * Espaço adicional de `letterSpacing` em um texto: como o `characterSpacing` do PDFKit,
+ * o espaçamento é somado depois de cada caractere, inclusive do último
+ */
+function letterSpacingWidth(text: string, letterSpacing: number): number {
+  return letterSpacing ? letterSpacing * Array.from(text).length : 0;
+}
+
 /**
  * Determina a fonte a ser usada com base nas propriedades de estilo
+ * Uma `fontFamily` registrada com `registerFont` tem prioridade: a face escolhida é a mais
+ * próxima do peso e do estilo da palavra. Famílias desconhecidas caem nas rotas de `fonts`:
+ * pesos a partir de 600 usam `bold` e até 300, `thin` (com as variações itálicas).
  */
 export function getFontForWord(
   word: Partial<MeasuredWord>,
-  fonts: FontOptions | undefined
+  fonts: FontOptions | undefined,
+  registeredFonts: RegisteredFont[] = []
 ): string {
   if (!word.text) {
     return fonts?.regular || "Helvetica";
   }
+  if (word.font) {
+    return word.font;
+  }
   if (isEmoji(word.text) && fonts?.emoji) {
     return fonts?.emoji || "NotoEmoji-Regular";
   }
-  if (word.bold && word.italic) {
-    return fonts?.boldItalic || fonts?.bold || fonts?.regular || "Helvetica-Bold";
+  if (word.style?.fontFamily) {
+    const family = resolveFontFamily(word, word.style.fontFamily, registeredFonts);
+    if (family) {
+      return family;
+    }
+  }
+  const { weight, italic } = wordFontFace(word);
+  if (word.code) {
+    const monospace = fonts?.monospace || "Courier";
+    return resolveFontFamily(word, monospace, registeredFonts) || monospace;
+  }
+  if (weight >= 600 && italic) {
+    return fonts?.boldItalic || fonts?.bold || fonts?.regular || "Helvetica-BoldOblique";
   }
-  if (word.bold) {
+  if (weight >= 600) {
     return fonts?.bold || fonts?.regular || "Helvetica-Bold";
   }
-  if (word.italic) {
+  if (weight <= 300 && italic) {
+    return fonts?.thinItalic || fonts?.regularItalic || fonts?.regular || "Helvetica-Oblique";
+  }
+  if (weight <= 300) {
+    return fonts?.thin || fonts?.regular || "Helvetica";
+  }
+  if (italic) {
     return fonts?.regularItalic || fonts?.regular || "Helvetica-Oblique";
   }
   return fonts?.regular || "Helvetica";
 }
 
+/**
+ * Peso e estilo de uma palavra: os marcadores de Markdown somados ao `fontWeight` e ao
+ * `fontStyle` do trecho ou do elemento
+ */
+function wordFontFace(word: Partial<MeasuredWord>): { weight: number; italic: boolean } {
+  const weight = normalizeFontWeight(word.style?.fontWeight);
+  const fontStyle = word.style?.fontStyle;
+  return {
+    weight: word.bold ? Math.max(weight, 700) : weight,
+    italic: !!word.italic || fontStyle === "italic" || fontStyle === "oblique",
+  };
+}
+
+/**
+ * Nome da fonte de uma família para o peso e o estilo da palavra: a face registrada mais
+ * próxima ou a variação da família, quando é uma fonte padrão do PDF
+ */
+function resolveFontFamily(
+  word: Partial<MeasuredWord>,
+  family: string,
+  registeredFonts: RegisteredFont[]
+): string | undefined {
+  const { weight, italic } = wordFontFace(word);
+  const registered = findRegisteredFont(
+    registeredFonts,
+    family,
+    weight,
+    italic ? "italic" : "normal"
+  );
+  if (registered) {
+    return registered.name;
+  }
+  return standardFontVariant(family, weight, italic);
+}
+
+/**
+ * Divide as palavras com caracteres que a sua fonte não tem entre as fontes alternativas
+ * do documento (`fallbackFonts`); cada parte guarda a fonte escolhida
+ */
+function applyFontFallback(
+  context: PardalContext,
+  words: Partial<MeasuredWord>[]
+): Partial<MeasuredWord>[] {
+  const result: Partial<MeasuredWord>[] = [];
+
+  for (const word of words) {
+    const text = word.text || "";
+
+    // Espaços e texto ASCII são cobertos por qualquer fonte
+    if (!text.trim() || /^[\x20-\x7e\s]*$/.test(text)) {
+      result.push(word);
+      continue;
+    }
+
+    const primary = getFontForWord(word, context.fonts, context.registeredFonts);
+    const chain = [primary];
+    for (const family of context.fallbackFonts) {
+      const font = resolveFontFamily(word, family, context.registeredFonts);
+      if (font && !chain.includes(font)) {
+        chain.push(font);
+      }
+    }
+
+    const runs = splitByFontCoverage(text, chain, context.registeredFonts);
+    for (const [index, run] of runs.entries()) {
+      // Partes na fonte principal seguem a escolha normal de fonte da palavra
+      const font = run.font === primary ? word.font : run.font;
+      // Só há oportunidade de quebra antes da primeira parte
+      const breakBefore = index === 0 ? word.breakBefore : undefined;
+      result.push({ ...word, text: run.text, font, breakBefore });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Medir palavras individuais em um texto
  * Reimplementado para seguir mais de perto a abordagem do Clay
  */
-export function measureWords(context: PardalContext, text: string, fontSize = 16): MeasuredWord[] {
+export function measureWords(
+  context: PardalContext,
+  text: string,
+  fontSize = 16,
+  letterSpacing = 0
+): MeasuredWord[] {
   if (!text || text.length === 0) {
     return [];
   }
 
+  const segments = splitAtLineBreaks(context, parseText(text), "manual", context.lang);
+  return measureSegments(context, segments, fontSize, letterSpacing);
+}
+
+/**
+ * Dividir as palavras nas oportunidades de quebra de linha que ficam dentro delas
+ * (hífens, barras, CJK, hífens suaves e, com `hyphens: "auto"`, a hifenização do idioma)
+ */
+function splitAtLineBreaks(
+  context: PardalContext,
+  segments: Partial<MeasuredWord>[],
+  hyphens: TextHyphens,
+  lang: string
+): Partial<MeasuredWord>[] {
+  const hyphenation = hyphens === "auto" ? findHyphenation(context.hyphenation, lang) : undefined;
+
+  return segments.flatMap((segment) => {
+    const text = segment.text || "";
+    if (!text.trim()) {
+      return [segment];
+    }
+    return splitAtBreakOpportunities(text, hyphens, hyphenation).map((piece) => ({
+      ...segment,
+      ...piece,
+    }));
+  });
+}
+
+/**
+ * Medir as palavras de um elemento de texto: trechos de texto rico quando existem,
+ * senão o conteúdo com a marcação Markdown simples
+ */
+function measureTextContent(context: PardalContext, textConfig: TextElementConfig): MeasuredWord[] {
+  const fontSize = textConfig.fontSize || 16;
+
+  const segments = splitAtLineBreaks(
+    context,
+    textConfig.spans && textConfig.spans.length > 0
+      ? parseSpans(textConfig.spans)
+      : parseText(textConfig.content || ""),
+    textConfig.hyphens || "manual",
+    textConfig.lang || context.lang
+  );
+
+  // A fonte do elemento vale para as palavras que não definem a sua
+  const elementStyle: TextStyle = {};
+  if (textConfig.fontFamily) elementStyle.fontFamily = textConfig.fontFamily;
+  if (textConfig.fontWeight !== undefined) elementStyle.fontWeight = textConfig.fontWeight;
+  if (textConfig.fontStyle) elementStyle.fontStyle = textConfig.fontStyle;
+
+  if (Object.keys(elementStyle).length > 0) {
+    for (const segment of segments) {
+      segment.style = { ...elementStyle, ...segment.style };
+    }
+  }
+
+  const words = measureSegments(context, segments, fontSize, textConfig.letterSpacing || 0);
+
+  // Níveis bidirecionais, na ordem lógica; a ordem visual é resolvida por linha
+  const baseLevel = resolveBaseLevel(textConfig.content || "", textConfig.direction);
+  if (baseLevel === 1 || hasRightToLeft(textConfig.content || "")) {
+    const levels = resolveBidiLevels(
+      words.map((word) => bidiClassOf(word.text)),
+      baseLevel
+    );
+    for (const [index, word] of words.entries()) {
+      word.bidiLevel = levels[index];
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Medir palavras já separadas, cada uma com a fonte e o tamanho do seu estilo
+ */
+function measureSegments(
+  context: PardalContext,
+  segments: Partial<MeasuredWord>[],
+  fontSize: number,
+  letterSpacing = 0
+): MeasuredWord[] {
   try {
     // Usar factory do contexto em vez de criar instância diretamente
     const pdfDoc = context.pdfKitFactory.createDocument();
+    applyRegisteredFonts(pdfDoc, context.registeredFonts);
 
-    pdfDoc.fontSize(fontSize);
+    const wordsToProcess =
+      context.fallbackFonts.length > 0 ? applyFontFallback(context, segments) : segments;
 
     const words: MeasuredWord[] = [];
 
-    const wordsToProcess = parseText(text);
-
     for (let i = 0; i < wordsToProcess.length; i++) {
       const word = wordsToProcess[i];
-      const fontName = getFontForWord(word, context.fonts);
-      pdfDoc.font(fontName);
+      const fontName = getFontForWord(word, context.fonts, context.registeredFonts);
+      const wordSize = wordFontSize(word, fontSize);
+      pdfDoc.font(fontName).fontSize(wordSize);
 
       // Safe width calculation with fallback
       let width = 0;
       try {
-        width = pdfDoc.widthOfString(word.text || "");
+        const text = word.text || "";
+        width = pdfDoc.widthOfString(text) + letterSpacingWidth(text, letterSpacing);
       } catch (error) {
         context.logger.warn(`Error measuring width for "${word.text}":`, error);
-        width = (word.text?.length || 0) * (fontSize / 2); // Fallback estimation
+        width = (word.text?.length || 0) * (wordSize / 2); // Fallback estimation
       }
 
       words.push({
         startOffset: i,
         length: word.text?.length || 0,
         width: width,
-        height: fontSize,
+        // Sobrescritos e subscritos ocupam a altura da linha do seu trecho
+        height: word.style?.fontSize || fontSize,
         next: i + 1,
         bold: word.bold || false,
         italic: word.italic || false,
+        code: word.code,
+        font: word.font,
         text: word.text || "",
+        style: word.style,
+        breakBefore: word.breakBefore,
       });
     }
 
@@ -140,18 +384,56 @@ export function measureWords(context: PardalContext, text: string, fontSize = 16
   }
 }
 
+/**
+ * Avanço vertical de uma linha até a próxima
+ * Linhas com trechos maiores que a fonte do elemento afastam a linha seguinte
+ */
+function textLineAdvance(
+  line: WrappedTextLine,
+  fontSize: number,
+  lineHeight: number,
+  lineSpacingFactor: number
+): number {
+  return lineHeight + Math.max(0, line.dimensions.height - fontSize) * lineSpacingFactor;
+}
+
+/**
+ * Altura do bloco de linhas: o avanço de cada linha e a altura da última
+ */
+function measureTextBlockHeight(
+  lines: WrappedTextLine[],
+  fontSize: number,
+  lineHeight: number,
+  lineSpacingFactor: number
+): number {
+  let totalHeight = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    totalHeight +=
+      i < lines.length - 1
+        ? textLineAdvance(lines[i], fontSize, lineHeight, lineSpacingFactor)
+        : lines[i].dimensions.height;
+  }
+
+  return totalHeight;
+}
+
 /**
  * Quebrar texto em linhas com base nas palavras medidas
  * Seguindo a implementação do Clay
+ * As linhas quebram nos espaços e nas oportunidades marcadas em `breakBefore`; com
+ * `overflowWrap` "break-word", palavras mais largas que o container quebram entre grafemas.
  */
 export function wrapTextIntoLines(
   context: PardalContext,
   text: string,
-  words: MeasuredWord[],
+  measuredWords: MeasuredWord[],
   containerWidth: number,
-  fontSize = 16
+  fontSize = 16,
+  letterSpacing = 0,
+  overflowWrap: TextOverflowWrap = "break-word"
 ): WrappedTextLine[] {
-  if (!text || text.length === 0 || !words || words.length === 0) {
+  if (!text || text.length === 0 || !measuredWords || measuredWords.length === 0) {
     return [];
   }
 
@@ -160,9 +442,27 @@ export function wrapTextIntoLines(
     const pdfDoc = context.pdfKitFactory.createDocument({
       autoFirstPage: false,
     });
+    applyRegisteredFonts(pdfDoc, context.registeredFonts);
     const fontFamily = context.fonts?.regular || "Helvetica";
     pdfDoc.font(fontFamily).fontSize(fontSize);
 
+    const measure = (word: MeasuredWord, wordText: string) => {
+      pdfDoc
+        .font(getFontForWord(word, context.fonts, context.registeredFonts))
+        .fontSize(wordFontSize(word, fontSize));
+      return pdfDoc.widthOfString(wordText) + letterSpacingWidth(wordText, letterSpacing);
+    };
+
+    // Último recurso: palavras que não cabem sozinhas em uma linha quebram entre grafemas
+    const words =
+      overflowWrap === "break-word" && containerWidth > 0
+        ? measuredWords.flatMap((word) =>
+            word.width > containerWidth && !word.text.includes("\n")
+              ? breakWordToWidth(word, containerWidth, measure)
+              : [word]
+          )
+        : measuredWords;
+
     const lines: WrappedTextLine[] = [];
     let currentLine: WrappedTextLine | null = null;
     let currentLineWidth = 0;
@@ -199,12 +499,12 @@ export function wrapTextIntoLines(
             };
           }
 
-          // Criar uma nova palavra para a primeira parte
+          // Criar uma nova palavra para a primeira parte, medida com a fonte da palavra
           const firstPart: MeasuredWord = {
             ...word,
             text: trimmedFirstPart,
             length: trimmedFirstPart.length,
-            width: pdfDoc.widthOfString(trimmedFirstPart),
+            width: measure(word, trimmedFirstPart),
           };
 
           // Adicionar a primeira parte à linha atual
@@ -217,6 +517,7 @@ export function wrapTextIntoLines(
 
         // Adicionar a linha atual ao array de linhas
         if (currentLine !== null && currentLine.content.length > 0) {
+          currentLine.endsParagraph = true;
           lines.push(currentLine);
         }
 
@@ -230,7 +531,7 @@ export function wrapTextIntoLines(
             ...word,
             text: trimmedSecondPart,
             length: trimmedSecondPart.length,
-            width: pdfDoc.widthOfString(trimmedSecondPart),
+            width: measure(word, trimmedSecondPart),
             startOffset: word.startOffset + parts[0].length + 1, // +1 for the '\n'
           };
 
@@ -336,6 +637,31 @@ export function wrapTextIntoLines(
           // Chegamos aqui se a palavra não coube mesmo após tentar remover espaços
           // ou se não havia espaços para remover
           else {
+            // A linha quebra na última oportunidade antes da palavra: palavras coladas à
+            // atual (trechos sem espaço entre si, como H₂O) vão junto para a próxima linha,
+            // desde que a linha atual não fique vazia (se havia espaços antes da palavra,
+            // nada está colado a ela)
+            const carried: MeasuredWord[] = [];
+            if (!isSpaceWord && !spaceRemoved) {
+              const { index, hyphen } = findLineBreak(
+                currentLine.content,
+                word,
+                containerWidth,
+                isSpace,
+                measure
+              );
+              for (const carriedWord of currentLine.content.splice(index)) {
+                currentLineWidth -= carriedWord.width;
+                currentLine.length -= carriedWord.length;
+                currentLine.dimensions.width -= carriedWord.width;
+                carried.push(carriedWord);
+              }
+              if (hyphen) {
+                currentLine.content.push(hyphen);
+                currentLine.dimensions.width += hyphen.width;
+              }
+            }
+
             // Adiciona a linha atual ao array de linhas (se não estiver vazia)
             if (currentLine && currentLine.content.length > 0) {
               lines.push(currentLine);
@@ -351,16 +677,17 @@ export function wrapTextIntoLines(
               };
               currentLineWidth = 0;
             } else {
+              const content: MeasuredWord[] = [...carried, word];
+              currentLineWidth = content.reduce((sum, lineWord) => sum + lineWord.width, 0);
               currentLine = {
-                content: [word],
-                dimensions: { 
-                  width: word.width, 
-                  height: word.height 
+                content,
+                dimensions: {
+                  width: currentLineWidth,
+                  height: Math.max(...content.map((lineWord) => lineWord.height)),
                 },
-                startOffset: word.startOffset,
-                length: word.length,
+                startOffset: content[0].startOffset,
+                length: content.reduce((sum, lineWord) => sum + lineWord.length, 0),
               };
-              currentLineWidth = word.width;
             }
           }
         }
@@ -397,6 +724,277 @@ export function wrapTextIntoLines(
   }
 }
 
+/**
+ * Posição da quebra de uma linha cheia: a última oportunidade (depois de um espaço ou antes
+ * de uma palavra com `breakBefore`) que deixa a linha com conteúdo; na hifenização, o hífen
+ * acrescentado também precisa caber. Sem oportunidade, a linha quebra antes da palavra.
+ */
+function findLineBreak(
+  content: MeasuredWord[],
+  nextWord: MeasuredWord,
+  containerWidth: number,
+  isSpace: (word: MeasuredWord) => boolean,
+  measure: (word: MeasuredWord, text: string) => number
+): { index: number; hyphen?: MeasuredWord } {
+  let width = content.reduce((sum, word) => sum + word.width, 0);
+
+  for (let index = content.length; index > 0; index--) {
+    const following = index < content.length ? content[index] : nextWord;
+    const previous = content[index - 1];
+
+    if (isSpace(previous)) {
+      return { index };
+    }
+    if (following.breakBefore === "break") {
+      return { index };
+    }
+    if (following.breakBefore === "hyphen") {
+      const hyphen: MeasuredWord = {
+        ...previous,
+        text: "-",
+        length: 0,
+        font: undefined,
+        breakBefore: undefined,
+      };
+      hyphen.width = measure(hyphen, "-");
+      if (width + hyphen.width <= containerWidth) {
+        return { index, hyphen };
+      }
+    }
+
+    width -= previous.width;
+  }
+
+  return { index: content.length };
+}
+
+/**
+ * Dividir uma palavra mais larga que o container em partes que cabem nele, entre grafemas
+ * As partes seguintes à primeira são oportunidades de quebra (`overflowWrap: "break-word"`).
+ */
+function breakWordToWidth(
+  word: MeasuredWord,
+  containerWidth: number,
+  measure: (word: MeasuredWord, text: string) => number
+): MeasuredWord[] {
+  const segmenter = new Intl.Segmenter("en", { granularity: "grapheme" });
+  const pieces: MeasuredWord[] = [];
+  let current = "";
+  let currentWidth = 0;
+
+  const pushPiece = () => {
+    pieces.push({
+      ...word,
+      text: current,
+      length: current.length,
+      width: currentWidth,
+      breakBefore: pieces.length === 0 ? word.breakBefore : "break",
+    });
+  };
+
+  for (const { segment } of segmenter.segment(word.text)) {
+    const width = measure(word, current + segment);
+    // Cada parte tem ao menos um grafema, mesmo que ele sozinho não caiba
+    if (current && width > containerWidth) {
+      pushPiece();
+      current = segment;
+      currentWidth = measure(word, segment);
+    } else {
+      current += segment;
+      currentWidth = width;
+    }
+  }
+
+  if (current) {
+    pushPiece();
+  }
+
+  return pieces;
+}
+
+/**
+ * Quebrar o texto de um elemento em linhas e aplicar os limites de `maxLines` e, com
+ * `overflow` clip ou ellipsis, da altura máxima do elemento
+ */
+function wrapElementText(
+  context: PardalContext,
+  element: LayoutElement,
+  words: MeasuredWord[],
+  containerWidth: number
+): WrappedTextLine[] {
+  const textConfig = element.textConfig;
+  if (!textConfig) {
+    return [];
+  }
+
+  const fontSize = textConfig.fontSize || 16;
+  const letterSpacing = textConfig.letterSpacing || 0;
+  const lines = wrapTextIntoLines(
+    context,
+    textConfig.content,
+    words,
+    containerWidth,
+    fontSize,
+    letterSpacing,
+    textConfig.overflowWrap
+  );
+
+  const overflow = textConfig.overflow || "visible";
+  let limit = textConfig.maxLines !== undefined ? Math.max(0, textConfig.maxLines) : lines.length;
+
+  const maxHeight = element.layoutConfig.sizing.height.size.minMax?.max;
+  if (overflow !== "visible" && maxHeight !== undefined && maxHeight < DEFAULT_MAX_SIZE) {
+    const { top, bottom } = element.layoutConfig.padding;
+    const lineSpacingFactor =
+      textConfig.lineSpacingFactor !== undefined
+        ? textConfig.lineSpacingFactor
+        : context.lineSpacingFactor;
+    const lineHeight = textConfig.lineHeight || fontSize * lineSpacingFactor;
+
+    // Apenas linhas inteiras: a que ultrapassaria a altura disponível é omitida
+    const availableHeight = maxHeight - top - bottom;
+    let lineTop = 0;
+    let fitting = 0;
+    while (fitting < limit && lineTop + lines[fitting].dimensions.height <= availableHeight) {
+      lineTop += textLineAdvance(lines[fitting], fontSize, lineHeight, lineSpacingFactor);
+      fitting++;
+    }
+    limit = fitting;
+  }
+
+  const truncated = limit < lines.length;
+  const visibleLines = truncated ? lines.slice(0, limit) : lines;
+  if (overflow !== "ellipsis") {
+    return visibleLines;
+  }
+
+  // A última linha de um texto cortado e as linhas mais largas que o container (uma palavra
+  // longa demais) terminam com reticências
+  return visibleLines.map((line, index) =>
+    (truncated && index === visibleLines.length - 1) || line.dimensions.width > containerWidth
+      ? ellipsizeTextLine(context, line, containerWidth, fontSize, letterSpacing)
+      : line
+  );
+}
+
+/**
+ * Terminar uma linha com "…", removendo do fim as palavras que não deixam espaço para as
+ * reticências; uma palavra sozinha na linha é cortada caractere a caractere
+ */
+function ellipsizeTextLine(
+  context: PardalContext,
+  line: WrappedTextLine,
+  containerWidth: number,
+  fontSize: number,
+  letterSpacing: number
+): WrappedTextLine {
+  const content = [...line.content];
+  const lastWord = [...content].reverse().find((word) => word.text.trim().length > 0);
+  if (!lastWord) {
+    return line;
+  }
+
+  const pdfDoc = context.pdfKitFactory.createDocument({ autoFirstPage: false });
+  applyRegisteredFonts(pdfDoc, context.registeredFonts);
+  const measure = (word: MeasuredWord, text: string) => {
+    pdfDoc
+      .font(getFontForWord(word, context.fonts, context.registeredFonts))
+      .fontSize(wordFontSize(word, fontSize));
+    return pdfDoc.widthOfString(text) + letterSpacingWidth(text, letterSpacing);
+  };
+  const contentWidth = () => content.reduce((sum, word) => sum + word.width, 0);
+
+  // As reticências usam o estilo da última palavra visível, na fonte principal
+  const ellipsis: MeasuredWord = { ...lastWord, text: "…", length: 0, font: undefined };
+  ellipsis.width = measure(ellipsis, ellipsis.text);
+
+  while (content.length > 1) {
+    const word = content[content.length - 1];
+    if (word.text.trim().length > 0 && contentWidth() + ellipsis.width <= containerWidth) {
+      break;
+    }
+    content.pop();
+  }
+
+  const [firstWord] = content;
+  if (content.length === 1 && firstWord.width + ellipsis.width > containerWidth) {
+    const availableWidth = containerWidth - ellipsis.width;
+    const chars = Array.from(firstWord.text);
+    while (chars.length > 1 && measure(firstWord, chars.join("")) > availableWidth) {
+      chars.pop();
+    }
+    const text = chars.join("");
+    content[0] = { ...firstWord, text, length: text.length, width: measure(firstWord, text) };
+  }
+
+  pdfDoc.end();
+  content.push(ellipsis);
+
+  return {
+    ...line,
+    content,
+    length: content.reduce((sum, word) => sum + word.length, 0),
+    dimensions: { width: contentWidth(), height: line.dimensions.height },
+    // A linha cortada não é esticada pelo alinhamento justificado
+    endsParagraph: true,
+  };
+}
+
+/**
+ * Distância do topo da linha até a linha de base, a partir das métricas da fonte regular
+ * Mantém a correção óptica que o renderizador sempre aplicou (a fonte sobe 1/6 do tamanho)
+ */
+function measureBaselineOffset(context: PardalContext, fontSize: number): number {
+  const fontName = context.fonts?.regular || "Helvetica";
+  const ascent = fontAscent(fontName, context.registeredFonts);
+  return (ascent !== undefined ? ascent : 0.8) * fontSize - fontSize / 6;
+}
+
+/**
+ * Palavras de uma linha na ordem em que são desenhadas, da esquerda para a direita
+ * Espaços no fim lógico da linha ficam no nível do parágrafo (regra L1).
+ */
+function visualLineOrder(content: MeasuredWord[], baseLevel: number): MeasuredWord[] {
+  if (baseLevel === 0 && !content.some((word) => word.bidiLevel)) {
+    return content;
+  }
+
+  const levels = content.map((word) => (word.bidiLevel !== undefined ? word.bidiLevel : baseLevel));
+  for (let i = content.length - 1; i >= 0 && isWhitespace(content[i]); i--) {
+    levels[i] = baseLevel;
+  }
+  return reorderVisually(content, levels);
+}
+
+/**
+ * Posicionar as palavras de uma linha dentro da sua caixa conforme o alinhamento
+ * As larguras são as medidas pelo layout, então o renderizador desenha exatamente o que foi quebrado
+ */
+function positionTextLine(
+  logicalContent: MeasuredWord[],
+  boxWidth: number,
+  alignment: TextAlignment,
+  top: number,
+  baselineOffset: number,
+  baseLevel = 0
+): TextLineLayout {
+  const content = visualLineOrder(logicalContent, baseLevel);
+  const placement = alignTextLine(content, boxWidth, alignment);
+  const x: number[] = [];
+  let cursor = placement.offset;
+
+  for (const [index, word] of content.entries()) {
+    x.push(cursor);
+    cursor += word.width;
+    // Na justificação, só os espaços entre palavras recebem o espaço extra
+    if (index > 0 && isWhitespace(word)) {
+      cursor += placement.extraSpace;
+    }
+  }
+
+  return { content, x, top, baseline: top + baselineOffset };
+}
+
 /**
  * Calcular o layout final através de várias fases
  */
@@ -432,6 +1030,12 @@ export function multiPassLayoutEngine(pardal: Pardal): void {
 
   // Fase 4: Calcular as posições finais e gerar comandos de renderização
   generateRenderCommands(pardal);
+
+  // Fase 4.5: Resolver a ordem de pintura (zIndex) a partir da árvore de elementos
+  applyStackingOrder(pardal);
+
+  // Fase 5: Distribuir o conteúdo que transborda em novas páginas (modo de fluxo)
+  paginateRenderCommands(pardal);
 }
 
 /**
@@ -456,7 +1060,7 @@ function processTextWrapping(context: PardalContext): void {
 
       // Medir as palavras se ainda não foram medidas
       if (!element.measuredWords) {
-        element.measuredWords = measureWords(context, element.textConfig.content, fontSize);
+        element.measuredWords = measureTextContent(context, element.textConfig);
       }
 
       // Obter a largura disponível para o texto, considerando o padding do elemento
@@ -465,35 +1069,23 @@ function processTextWrapping(context: PardalContext): void {
         (element.layoutConfig.padding.left + element.layoutConfig.padding.right);
 
       // Quebrar o texto em linhas com base na largura disponível (container)
-      const wrappedLines = wrapTextIntoLines(
+      const wrappedLines = wrapElementText(
         context,
-        element.textConfig.content,
+        element,
         element.measuredWords,
-        availableWidth,
-        fontSize
+        availableWidth
       );
 
       // Armazenar as linhas quebradas no elemento
       element.wrappedTextLines = wrappedLines;
 
       // Recalcular a altura com base nas linhas quebradas, incluindo o espaçamento
-      let totalHeight = 0;
-
-      if (element.wrappedTextLines.length > 0) {
-        // Para cada linha, adicionar sua altura
-        for (let i = 0; i < element.wrappedTextLines.length; i++) {
-          const line = element.wrappedTextLines[i];
-
-          // Adicionar a altura da linha
-          totalHeight += line.dimensions.height;
-
-          // Se não for a última linha, adicionar o espaçamento adicional
-          if (i < element.wrappedTextLines.length - 1) {
-            // Adicionar o espaço extra entre as linhas
-            totalHeight += lineHeight - line.dimensions.height;
-          }
-        }
-      }
+      let totalHeight = measureTextBlockHeight(
+        element.wrappedTextLines,
+        fontSize,
+        lineHeight,
+        lineSpacingFactor
+      );
 
       // Adicionar padding vertical ao total da altura
       totalHeight += element.layoutConfig.padding.top + element.layoutConfig.padding.bottom;
@@ -560,26 +1152,32 @@ function findParentElement(context: PardalContext, element: LayoutElement): Layo
  * Inicializar dimensões dos elementos raiz
  */
 function initializeRootElements(context: PardalContext): void {
+  // Elementos aninhados são dimensionados pelo pai; um FIT iniciado com tamanho
+  // arbitrário quebraria o texto nessa largura em vez da largura natural
+  const nestedElements = new Set(context.layoutElements.flatMap((element) => element.children));
+
   // Definir dimensões iniciais dos elementos raiz para ocupar todo o espaço
   for (const element of context.layoutElements) {
-    if (!context.openLayoutElementStack.includes(element)) {
+    if (!context.openLayoutElementStack.includes(element) && !nestedElements.has(element)) {
       if (context.debugMode) {
         context.logger.debug("Definindo dimensões do elemento raiz:", element.id);
       }
 
-      // Elemento raiz - inicializar com dimensões padrão
+      // Elemento raiz - inicializar com a área de conteúdo da página (sem cabeçalho e rodapé)
+      const contentBox = getPageContentBox(context, element.pageId);
+
       if (element.dimensions.width === 0) {
-        element.dimensions.width =
-          element.layoutConfig.sizing.width.type === SizingType.GROW
-            ? context.layoutDimensions.width
-            : 100;
+        element.dimensions.width = initialRootSize(
+          element.layoutConfig.sizing.width,
+          contentBox.width
+        );
       }
 
       if (element.dimensions.height === 0) {
-        element.dimensions.height =
-          element.layoutConfig.sizing.height.type === SizingType.GROW
-            ? context.layoutDimensions.height
-            : 100;
+        element.dimensions.height = initialRootSize(
+          element.layoutConfig.sizing.height,
+          contentBox.height
+        );
       }
 
       if (context.debugMode) {
@@ -591,6 +1189,22 @@ function initializeRootElements(context: PardalContext): void {
   }
 }
 
+/**
+ * Tamanho inicial de um elemento raiz em um eixo, relativo à área de conteúdo da página
+ */
+function initialRootSize(sizing: SizingAxis, available: number): number {
+  switch (sizing.type) {
+    case SizingType.GROW:
+      return available;
+    case SizingType.FIXED:
+      return sizing.size.fixed || 0;
+    case SizingType.PERCENT:
+      return available * (sizing.size.percent || 0);
+    default:
+      return 100;
+  }
+}
+
 /**
  * Calcular dimensões mínimas de forma recursiva (DFS)
  * Esta função calcula os tamanhos mínimos de todos os elementos na árvore de layout
@@ -609,6 +1223,15 @@ function calculateMinimumDimensions(context: PardalContext): void {
   for (const rootElement of rootElements) {
     calculateElementMinimumDimensions(context, rootElement);
   }
+
+  // Como todo elemento também é processado como raiz, as células das tabelas voltam
+  // ao seu tamanho próprio: realinhá-las no final, das tabelas internas para as externas
+  for (const element of [...context.layoutElements].reverse()) {
+    if (element.alignCells) {
+      alignCellDimensions(context, element);
+      calculateElementFitSize(context, element);
+    }
+  }
 }
 
 /**
@@ -621,17 +1244,58 @@ function calculateElementMinimumDimensions(context: PardalContext, element: Layo
     calculateElementMinimumDimensions(context, child);
   }
 
+  // Células de tabela: igualar colunas e linhas antes de calcular o tamanho do container
+  if (element.alignCells) {
+    alignCellDimensions(context, element);
+  }
+
   // Em seguida, calcular as dimensões mínimas deste elemento com base em seus filhos
   calculateElementFitSize(context, element);
 }
 
+/**
+ * Alinhar as células das linhas de um container em tabela:
+ * as células FIT de uma mesma coluna recebem a maior largura mínima da coluna,
+ * e as células FIT de uma mesma linha recebem a maior altura mínima da linha
+ */
+function alignCellDimensions(context: PardalContext, element: LayoutElement): void {
+  const rows = element.children
+    .filter((child) => !child.absolute && child.layoutConfig.layoutDirection === Direction.ROW)
+    .map((row) => ({ row, cells: row.children.filter((cell) => !cell.absolute) }));
+
+  const columnCount = Math.max(0, ...rows.map(({ cells }) => cells.length));
+
+  for (let column = 0; column < columnCount; column++) {
+    const cells = rows
+      .map(({ cells }) => cells[column])
+      .filter((cell) => cell && cell.layoutConfig.sizing.width.type === SizingType.FIT);
+    const width = Math.max(0, ...cells.map((cell) => cell.minDimensions.width));
+
+    for (const cell of cells) {
+      cell.minDimensions.width = width;
+    }
+  }
+
+  for (const { row, cells } of rows) {
+    const fitCells = cells.filter((cell) => cell.layoutConfig.sizing.height.type === SizingType.FIT);
+    const height = Math.max(0, ...fitCells.map((cell) => cell.minDimensions.height));
+
+    for (const cell of fitCells) {
+      cell.minDimensions.height = height;
+    }
+
+    // Recalcular o tamanho da linha com as células alinhadas
+    calculateElementFitSize(context, row);
+  }
+}
+
 /**
  * Calcular o tamanho "fit" de um elemento com base em seus filhos
  * Isto é usado para elementos que precisam se ajustar ao seu conteúdo
  */
 function calculateElementFitSize(context: PardalContext, element: LayoutElement): void {
   const layoutConfig = element.layoutConfig;
-  const isRowLayout = layoutConfig.layoutDirection === Direction.ROW;
+  const isRowLayout = isRowDirection(layoutConfig.layoutDirection);
 
   // Caso especial: elemento de texto
   if (element.elementType === "text" && element.textConfig) {
@@ -649,40 +1313,30 @@ function calculateElementFitSize(context: PardalContext, element: LayoutElement)
     const lineHeight = element.textConfig.lineHeight || fontSize * lineSpacingFactor;
 
     // Medir palavras
-    const words = measureWords(context, textContent, fontSize);
+    const words = measureTextContent(context, element.textConfig);
 
     // Armazenar palavras medidas no elemento (para uso na renderização)
     element.measuredWords = words;
 
     // Se temos uma largura definida, fazemos wrap do texto
     if (element.dimensions.width > 0) {
-      const wrappedLines = wrapTextIntoLines(
+      const wrappedLines = wrapElementText(
         context,
-        textContent,
+        element,
         words,
-        element.dimensions.width - (layoutConfig.padding.left + layoutConfig.padding.right),
-        fontSize
+        element.dimensions.width - (layoutConfig.padding.left + layoutConfig.padding.right)
       );
 
       // Armazenar linhas quebradas no elemento (para uso na renderização)
       element.wrappedTextLines = wrappedLines;
 
       // Calcular altura total do texto quebrado, incluindo o espaçamento entre linhas
-      let totalHeight = 0;
-
-      // Para cada linha, adicionar sua altura
-      for (let i = 0; i < wrappedLines.length; i++) {
-        const line = wrappedLines[i];
-
-        // Adicionar a altura da linha
-        totalHeight += line.dimensions.height;
-
-        // Se não for a última linha, adicionar o espaçamento adicional
-        if (i < wrappedLines.length - 1) {
-          // Adicionar o espaço extra entre as linhas
-          totalHeight += lineHeight - line.dimensions.height;
-        }
-      }
+      const totalHeight = measureTextBlockHeight(
+        wrappedLines,
+        fontSize,
+        lineHeight,
+        lineSpacingFactor
+      );
 
       // Definir dimensões com base nas linhas quebradas
       element.minDimensions = {
@@ -693,9 +1347,10 @@ function calculateElementFitSize(context: PardalContext, element: LayoutElement)
       // Atualizar as dimensões do elemento
       element.dimensions.height = element.minDimensions.height;
     } else {
-      // Sem largura definida, usamos a largura natural do texto
-      // Medir o texto completo para obter a largura máxima
-      const { width, height } = measureTextDimensions(context, textContent, fontSize);
+      // Sem largura definida, usamos a largura natural do texto: a soma das palavras
+      // medidas, cada uma com a sua fonte (peso, estilo, fallback) e tamanho
+      const width = words.reduce((sum, word) => sum + word.width, 0);
+      const height = words.reduce((max, word) => Math.max(max, word.height), 0);
 
       // Criar linha única como fallback
       if (!element.wrappedTextLines) {
@@ -775,6 +1430,16 @@ function calculateElementFitSize(context: PardalContext, element: LayoutElement)
     }
   }
 
+  // Grade: soma das trilhas no tamanho mínimo, com os gaps entre elas
+  if (element.grid) {
+    element.minDimensions = {
+      width: gridContentSize(element, true) + totalHorizontalPadding,
+      height: gridContentSize(element, false) + totalVerticalPadding,
+    };
+    applyFitSizingConstraints(element);
+    return;
+  }
+
   // Calcular tamanho com base na direção do layout
   if (isRowLayout) {
     // Layout em linha: somar larguras e pegar altura máxima
@@ -846,6 +1511,21 @@ function calculateElementFitSize(context: PardalContext, element: LayoutElement)
     }
   }
 
+  // Com wrap, os filhos que não cabem no eixo principal formam novas linhas
+  if (layoutConfig.wrap) {
+    const lines = wrapChildrenIntoLines(element, wrapAvailableSpace(element));
+    if (lines.length > 1) {
+      const main = Math.max(...lines.map((line) => line.main));
+      const cross =
+        lines.reduce((sum, line) => sum + line.cross, 0) +
+        (lines.length - 1) * wrapLineGap(layoutConfig);
+      totalWidth = isRowLayout ? main : totalWidth;
+      maxHeight = isRowLayout ? cross : maxHeight;
+      totalHeight = isRowLayout ? totalHeight : main;
+      maxWidth = isRowLayout ? maxWidth : cross;
+    }
+  }
+
   // Definir dimensões mínimas incluindo padding
   element.minDimensions = {
     width: isRowLayout ? totalWidth + totalHorizontalPadding : maxWidth + totalHorizontalPadding,
@@ -938,9 +1618,9 @@ function distributeSpaceToChildren(
     : layoutConfig.padding.top + layoutConfig.padding.bottom;
 
   // Layout é ao longo do eixo que estamos processando?
-  const isLayoutAlongAxis =
-    (isXAxis && layoutConfig.layoutDirection === Direction.ROW) ||
-    (!isXAxis && layoutConfig.layoutDirection === Direction.COLUMN);
+  const isLayoutAlongAxis = isXAxis === isRowDirection(layoutConfig.layoutDirection);
+  // Com wrap, o eixo principal é distribuído por linha
+  const wrapsAlongAxis = isLayoutAlongAxis && !!layoutConfig.wrap;
 
   // Se for um elemento fit, ajustar as dimensões precisamente com base nos filhos
   if (sizingAxis.type === SizingType.FIT && parent.minDimensions) {
@@ -983,6 +1663,15 @@ function distributeSpaceToChildren(
     return;
   }
 
+  // Grade: as trilhas dividem o espaço e cada filho ocupa a área das suas células
+  if (parent.grid) {
+    sizeGridItems(parent, isXAxis, Math.max(0, parentSize - parentPadding));
+    for (const child of parent.children) {
+      distributeSpaceToChildren(context, child, isXAxis);
+    }
+    return;
+  }
+
   // Espaço disponível para os filhos após remover o padding
   let availableSpace = Math.max(0, parentSize - parentPadding);
 
@@ -990,8 +1679,10 @@ function distributeSpaceToChildren(
   let totalFixedAndPercentSpace = 0;
   let growContainerCount = 0;
 
-  // Calcular total de gaps entre elementos
-  const totalGapSpace = (nonAbsoluteChildren.length - 1) * layoutConfig.childGap;
+  // Calcular total de gaps entre elementos (com wrap, os gaps dependem das linhas)
+  const totalGapSpace = wrapsAlongAxis
+    ? 0
+    : (nonAbsoluteChildren.length - 1) * layoutConfig.childGap;
   availableSpace -= totalGapSpace;
 
   // Processar elementos com tamanho fixo e percentual
@@ -1054,8 +1745,16 @@ function distributeSpaceToChildren(
   // 3. Distribuir espaço restante para elementos GROW
   const remainingSpace = Math.max(0, availableSpace - totalFixedAndPercentSpace);
 
-  if (growContainerCount > 0 && remainingSpace > 0) {
-    const spacePerGrowElement = remainingSpace / growContainerCount;
+  if (wrapsAlongAxis) {
+    distributeWrappedGrowSpace(parent, parentSize - parentPadding, isXAxis);
+  } else if (growContainerCount > 0 && remainingSpace > 0) {
+    // O espaço é dividido pelo peso de cada elemento (`Sizing.fr`, 1 por padrão)
+    const totalGrowWeight = nonAbsoluteChildren.reduce((sum, child) => {
+      const childSizing = isXAxis
+        ? child.layoutConfig.sizing.width
+        : child.layoutConfig.sizing.height;
+      return childSizing.type === SizingType.GROW ? sum + (childSizing.size.grow || 1) : sum;
+    }, 0);
 
     for (const child of nonAbsoluteChildren) {
       const childSizing = isXAxis
@@ -1066,7 +1765,8 @@ function distributeSpaceToChildren(
         // Aplicar tamanho GROW, respeitando min/max
         const minSize = childSizing.size.minMax?.min || DEFAULT_MIN_SIZE;
         const maxSize = childSizing.size.minMax?.max || DEFAULT_MAX_SIZE;
-        const growSize = Math.max(Math.min(spacePerGrowElement, maxSize), minSize);
+        const growShare = (remainingSpace * (childSizing.size.grow || 1)) / totalGrowWeight;
+        const growSize = Math.max(Math.min(growShare, maxSize), minSize);
 
         if (isXAxis) {
           child.dimensions.width = growSize;
@@ -1078,7 +1778,9 @@ function distributeSpaceToChildren(
   }
 
   // 4. No eixo perpendicular ao layout, ajustar elementos para ocupar todo o espaço disponível
-  if (!isLayoutAlongAxis) {
+  if (!isLayoutAlongAxis && layoutConfig.wrap) {
+    stretchWrappedGrowChildren(parent, isXAxis);
+  } else if (!isLayoutAlongAxis) {
     const perpendicularSize = parentSize - parentPadding;
 
     for (const child of nonAbsoluteChildren) {
@@ -1115,6 +1817,164 @@ function distributeSpaceToChildren(
   }
 }
 
+// Layouts em linha (ROW e ROW_REVERSE) distribuem os filhos no eixo X
+function isRowDirection(direction: Direction): boolean {
+  return direction === Direction.ROW || direction === Direction.ROW_REVERSE;
+}
+
+function isReverseDirection(direction: Direction): boolean {
+  return direction === Direction.ROW_REVERSE || direction === Direction.COLUMN_REVERSE;
+}
+
+// Linha de um layout com wrap: os filhos, a soma dos tamanhos no eixo principal (com os
+// gaps) e o maior tamanho no eixo perpendicular
+interface WrapLine {
+  children: LayoutElement[];
+  main: number;
+  cross: number;
+}
+
+function wrapLineGap(layoutConfig: LayoutConfig): number {
+  return layoutConfig.lineGap !== undefined ? layoutConfig.lineGap : layoutConfig.childGap;
+}
+
+/**
+ * Espaço do eixo principal em que os filhos de um layout com wrap são quebrados em linhas
+ * Antes da distribuição de espaço, vale o tamanho fixo ou o máximo de um elemento FIT;
+ * sem nenhum deles, os filhos ficam em uma única linha.
+ */
+function wrapAvailableSpace(element: LayoutElement): number {
+  const { sizing, padding, layoutDirection } = element.layoutConfig;
+  const isRow = isRowDirection(layoutDirection);
+  const axisSizing = isRow ? sizing.width : sizing.height;
+  const axisPadding = isRow ? padding.left + padding.right : padding.top + padding.bottom;
+  let size = isRow ? element.dimensions.width : element.dimensions.height;
+
+  if (axisSizing.type === SizingType.FIXED) {
+    size = axisSizing.size.fixed || 0;
+  } else if (size <= 0) {
+    const max = axisSizing.size.minMax?.max;
+    size = max !== undefined && max < DEFAULT_MAX_SIZE ? max : Number.POSITIVE_INFINITY;
+  }
+
+  return Math.max(0, size - axisPadding);
+}
+
+/**
+ * Tamanho de um filho em um eixo para a quebra em linhas: o fixo, o mínimo de um GROW
+ * (que cresce depois, dentro da sua linha) ou o já calculado
+ */
+function wrapItemSize(child: LayoutElement, isXAxis: boolean): number {
+  const sizing = isXAxis ? child.layoutConfig.sizing.width : child.layoutConfig.sizing.height;
+  const size = isXAxis ? child.dimensions.width : child.dimensions.height;
+  const minSize = isXAxis ? child.minDimensions.width : child.minDimensions.height;
+
+  switch (sizing.type) {
+    case SizingType.FIXED:
+      return sizing.size.fixed || 0;
+    case SizingType.GROW:
+      return sizing.size.minMax?.min || DEFAULT_MIN_SIZE;
+    default:
+      return Math.max(size, minSize);
+  }
+}
+
+/**
+ * Quebrar os filhos de um layout com wrap em linhas: cada linha recebe os filhos, em ordem,
+ * enquanto eles (e o childGap entre eles) couberem no espaço disponível
+ */
+function wrapChildrenIntoLines(element: LayoutElement, available: number): WrapLine[] {
+  const isRow = isRowDirection(element.layoutConfig.layoutDirection);
+  const gap = element.layoutConfig.childGap;
+  const lines: WrapLine[] = [];
+  let line: WrapLine | undefined;
+
+  for (const child of element.children) {
+    if (child.absolute) continue;
+
+    const main = wrapItemSize(child, isRow);
+    const cross = wrapItemSize(child, !isRow);
+    // Tolerância para erros de arredondamento na soma das larguras
+    if (!line || line.main + gap + main > available + 0.001) {
+      line = { children: [child], main, cross };
+      lines.push(line);
+    } else {
+      line.children.push(child);
+      line.main += gap + main;
+      line.cross = Math.max(line.cross, cross);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Distribuir o espaço que sobra em cada linha de um layout com wrap entre os filhos GROW
+ * dessa linha, no eixo principal
+ */
+function distributeWrappedGrowSpace(
+  parent: LayoutElement,
+  available: number,
+  isXAxis: boolean
+): void {
+  const sizingOf = (child: LayoutElement) =>
+    isXAxis ? child.layoutConfig.sizing.width : child.layoutConfig.sizing.height;
+
+  for (const line of wrapChildrenIntoLines(parent, available)) {
+    const growChildren = line.children.filter((child) => sizingOf(child).type === SizingType.GROW);
+    if (growChildren.length === 0) continue;
+
+    const baseSize = growChildren.reduce((sum, child) => sum + wrapItemSize(child, isXAxis), 0);
+    const freeSpace = Math.max(0, available - line.main);
+    // O espaço da linha é dividido pelo peso de cada elemento (`Sizing.fr`, 1 por padrão)
+    const totalGrowWeight = growChildren.reduce(
+      (sum, child) => sum + (sizingOf(child).size.grow || 1),
+      0
+    );
+
+    for (const child of growChildren) {
+      const childSizing = sizingOf(child);
+      const minSize = childSizing.size.minMax?.min || DEFAULT_MIN_SIZE;
+      const maxSize = childSizing.size.minMax?.max || DEFAULT_MAX_SIZE;
+      const growShare = ((freeSpace + baseSize) * (childSizing.size.grow || 1)) / totalGrowWeight;
+      const growSize = Math.max(Math.min(growShare, maxSize), minSize);
+
+      if (isXAxis) {
+        child.dimensions.width = growSize;
+      } else {
+        child.dimensions.height = growSize;
+      }
+    }
+  }
+}
+
+/**
+ * No eixo perpendicular de um layout com wrap, filhos GROW ocupam a altura (ou largura)
+ * da sua linha, dada pelos demais filhos dela
+ */
+function stretchWrappedGrowChildren(parent: LayoutElement, isXAxis: boolean): void {
+  const { padding, layoutDirection } = parent.layoutConfig;
+  const available = isRowDirection(layoutDirection)
+    ? parent.dimensions.width - padding.left - padding.right
+    : parent.dimensions.height - padding.top - padding.bottom;
+
+  for (const line of wrapChildrenIntoLines(parent, available)) {
+    for (const child of line.children) {
+      const childSizing = isXAxis
+        ? child.layoutConfig.sizing.width
+        : child.layoutConfig.sizing.height;
+      if (childSizing.type !== SizingType.GROW) continue;
+
+      const size = Math.min(line.cross, childSizing.size.minMax?.max || DEFAULT_MAX_SIZE);
+      if (isXAxis) {
+        child.dimensions.width = size;
+      } else {
+        child.dimensions.height = size;
+      }
+    }
+  }
+}
+
 /**
  * Calcular posições finais e gerar comandos de renderização
  */
@@ -1132,9 +1992,10 @@ function generateRenderCommands(pardal: Pardal): void {
     }
   }
 
-  // Posicionar cada árvore de layout começando pela raiz
+  // Posicionar cada árvore de layout começando pela área de conteúdo da sua página
   for (const rootElement of rootElements) {
-    positionElement(pardal, rootElement, { x: 0, y: 0 });
+    const contentBox = getPageContentBox(currentContext, rootElement.pageId);
+    positionElement(pardal, rootElement, { x: contentBox.x, y: contentBox.y });
   }
 
   // Gerar comandos para cada elemento
@@ -1168,7 +2029,8 @@ function generateRenderCommands(pardal: Pardal): void {
           element.cornerRadius,
           element.opacity,
           element.spreadness,
-          element.source
+          element.source,
+          element.borders
         );
         pardal.addRenderCommand(rectCmd);
         break;
@@ -1179,7 +2041,8 @@ function generateRenderCommands(pardal: Pardal): void {
           element.id,
           element.pageId,
           boundingBox,
-          element.backgroundColor
+          element.backgroundColor,
+          element.borders
         );
         pardal.addRenderCommand(circleCmd);
         break;
@@ -1189,20 +2052,40 @@ function generateRenderCommands(pardal: Pardal): void {
         if (element.textConfig && element.wrappedTextLines) {
           const textConfig = element.textConfig;
           const color = textConfig.color || "#000000";
-
-          // Extrair todas as palavras de todas as linhas em um array plano
-          let allWords: MeasuredWord[] = [];
-          for (const line of element.wrappedTextLines) {
-            allWords = allWords.concat(line.content);
-          }
-
-          if (allWords.length > 0) {
+          const fontSize = textConfig.fontSize || 16;
+          const lineSpacingFactor =
+            textConfig.lineSpacingFactor !== undefined
+              ? textConfig.lineSpacingFactor
+              : currentContext.lineSpacingFactor;
+          const lineHeight = textConfig.lineHeight || fontSize * lineSpacingFactor;
+          const padding = element.layoutConfig.padding;
+          const availableWidth = boundingBox.width - (padding.left + padding.right);
+          const baseLevel = resolveBaseLevel(textConfig.content, textConfig.direction);
+
+          // Cada linha quebrada pelo layout vira uma linha posicionada do comando
+          let lineTop = padding.top;
+          const lines = element.wrappedTextLines
+            .filter((line) => line.content.length > 0)
+            .map((line) => {
+              const positioned = positionTextLine(
+                line.content,
+                availableWidth,
+                textConfig.textAlignment || TextAlignment.LEFT,
+                lineTop,
+                measureBaselineOffset(currentContext, line.dimensions.height),
+                baseLevel
+              );
+              lineTop += textLineAdvance(line, fontSize, lineHeight, lineSpacingFactor);
+              return { ...positioned, x: positioned.x.map((offset) => offset + padding.left) };
+            });
+
+          if (lines.length > 0) {
             const textCmd = createTextCommandFromConfig(
               element.id,
               element.pageId,
               boundingBox,
               {
-                content: allWords,
+                lines,
                 color: color,
                 fontId: textConfig.fontId,
                 fontSize: textConfig.fontSize,
@@ -1256,6 +2139,47 @@ function generateRenderCommands(pardal: Pardal): void {
   }
 }
 
+/**
+ * Comando de sombra de um elemento: a caixa do elemento deslocada e expandida pelo spread,
+ * com os mesmos cantos (círculos e imagens `rounded` têm sombra circular)
+ */
+function createElementShadowCommand(
+  element: LayoutElement,
+  boundingBox: BoundingBox
+): RenderCommand {
+  const shadow = element.shadow || {};
+  const spread = shadow.spread || 0;
+  const box = {
+    x: boundingBox.x + (shadow.offsetX || 0) - spread,
+    y: boundingBox.y + (shadow.offsetY || 0) - spread,
+    width: Math.max(0, boundingBox.width + spread * 2),
+    height: Math.max(0, boundingBox.height + spread * 2),
+  };
+
+  const isCircular = element.elementType === "circle" || !!element.imageConfig?.rounded;
+  const cornerRadius = isCircular
+    ? Math.min(boundingBox.width, boundingBox.height) / 2
+    : element.cornerRadius || element.imageConfig?.cornerRadius;
+  const radii = hasCornerRadius(cornerRadius)
+    ? spreadCornerRadii(
+        resolveCornerRadii(cornerRadius, boundingBox.width, boundingBox.height),
+        spread
+      )
+    : undefined;
+
+  return createShadowCommand(
+    element.id,
+    element.pageId,
+    box,
+    {
+      color: shadow.color || "#000000",
+      opacity: shadow.opacity !== undefined ? shadow.opacity : 0.25,
+      blur: Math.max(0, shadow.blur || 0),
+    },
+    radii
+  );
+}
+
 /**
  * Posicionar elemento e seus filhos recursivamente
  * @param element Elemento a ser posicionado
@@ -1316,6 +2240,11 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     );
   }
 
+  // A sombra vem antes do próprio elemento, para ser pintada por baixo dele
+  if (element.shadow) {
+    pardal.addRenderCommand(createElementShadowCommand(element, boundingBox));
+  }
+
   // Gerar comando de renderização para este elemento
   if (element.elementType === "rectangle") {
     pardal.addRenderCommand(
@@ -1327,7 +2256,8 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
         element.cornerRadius,
         element.opacity,
         element.spreadness,
-        element.source
+        element.source,
+        element.borders
       )
     );
     if (currentContext.debugMode) {
@@ -1335,7 +2265,14 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     }
   } else if (element.elementType === "circle") {
     pardal.addRenderCommand(
-      createCircleCommand(element.id, element.pageId, boundingBox, element.backgroundColor, 0)
+      createCircleCommand(
+        element.id,
+        element.pageId,
+        boundingBox,
+        element.backgroundColor,
+        element.borders,
+        0
+      )
     );
     if (currentContext.debugMode) {
       currentContext.logger.debug(`  Adicionando comando CIRCLE para elemento ${element.id}`);
@@ -1375,6 +2312,8 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     const lineHeight = element.textConfig.lineHeight || fontSize * lineSpacingFactor;
 
     const textAlignment = element.textConfig.textAlignment || TextAlignment.LEFT;
+    const baseLevel = resolveBaseLevel(element.textConfig.content, element.textConfig.direction);
+    const baselineOffset = measureBaselineOffset(currentContext, fontSize);
 
     // Se não temos linhas de texto quebradas, precisamos calculá-las agora
     if (!element.wrappedTextLines || element.wrappedTextLines.length === 0) {
@@ -1386,37 +2325,25 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
 
       // Se não temos palavras medidas, medimos agora
       if (!element.measuredWords) {
-        element.measuredWords = measureWords(currentContext, element.textConfig.content, fontSize);
+        element.measuredWords = measureTextContent(currentContext, element.textConfig);
       }
 
       // Quebrar texto em linhas
-      element.wrappedTextLines = wrapTextIntoLines(
+      element.wrappedTextLines = wrapElementText(
         currentContext,
-        element.textConfig.content,
+        element,
         element.measuredWords,
         boundingBox.width -
-          (element.layoutConfig.padding.left + element.layoutConfig.padding.right),
-        fontSize
+          (element.layoutConfig.padding.left + element.layoutConfig.padding.right)
       );
 
       // Recalcular a altura com base nas linhas quebradas, incluindo o espaçamento
-      let totalHeight = 0;
-
-      if (element.wrappedTextLines.length > 0) {
-        // Para cada linha, adicionar sua altura
-        for (let i = 0; i < element.wrappedTextLines.length; i++) {
-          const line = element.wrappedTextLines[i];
-
-          // Adicionar a altura da linha
-          totalHeight += line.dimensions.height;
-
-          // Se não for a última linha, adicionar o espaçamento adicional
-          if (i < element.wrappedTextLines.length - 1) {
-            // Adicionar o espaço extra entre as linhas
-            totalHeight += lineHeight - line.dimensions.height;
-          }
-        }
-      }
+      let totalHeight = measureTextBlockHeight(
+        element.wrappedTextLines,
+        fontSize,
+        lineHeight,
+        lineSpacingFactor
+      );
 
       // Adicionar padding vertical ao total da altura
       totalHeight += element.layoutConfig.padding.top + element.layoutConfig.padding.bottom;
@@ -1447,20 +2374,13 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
       boundingBox.height = element.dimensions.height;
 
       // Aplicar alinhamento vertical se necessário (top, center, bottom)
-      let contentHeight = 0;
-
       // Calcular a altura total do conteúdo incluindo o espaçamento entre linhas
-      if (element.wrappedTextLines.length > 0) {
-        for (let i = 0; i < element.wrappedTextLines.length; i++) {
-          const line = element.wrappedTextLines[i];
-          contentHeight += line.dimensions.height;
-
-          // Adicionar o espaçamento entre linhas (exceto para a última linha)
-          if (i < element.wrappedTextLines.length - 1) {
-            contentHeight += lineHeight - line.dimensions.height;
-          }
-        }
-      }
+      const contentHeight = measureTextBlockHeight(
+        element.wrappedTextLines,
+        fontSize,
+        lineHeight,
+        lineSpacingFactor
+      );
 
       const availableHeight = boundingBox.height - (linePadding.top + linePadding.bottom);
       const extraHeight = Math.max(0, availableHeight - contentHeight);
@@ -1471,7 +2391,7 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
         yOffset += extraHeight;
       }
 
-      for (const line of element.wrappedTextLines) {
+      for (const [lineIndex, line] of element.wrappedTextLines.entries()) {
         if (line.content.length === 0) {
           // Linha vazia, apenas avançar a posição y
           yOffset += line.dimensions.height;
@@ -1480,19 +2400,33 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
 
         // Calcular o alinhamento horizontal
         let xOffset = linePadding.left;
+        let lineWidth = line.dimensions.width;
         const availableWidth = boundingBox.width - (linePadding.left + linePadding.right);
+        const isLastLine = lineIndex === element.wrappedTextLines.length - 1;
+
+        // A última linha de cada parágrafo não é justificada (fica no lado onde o texto começa)
+        const lineAlignment =
+          textAlignment === TextAlignment.JUSTIFY && (isLastLine || line.endsParagraph)
+            ? baseLevel === 1
+              ? TextAlignment.RIGHT
+              : TextAlignment.LEFT
+            : textAlignment;
 
-        if (textAlignment === TextAlignment.CENTER) {
+        if (lineAlignment === TextAlignment.CENTER) {
           xOffset = linePadding.left + (availableWidth - line.dimensions.width) / 2;
-        } else if (textAlignment === TextAlignment.RIGHT) {
+        } else if (lineAlignment === TextAlignment.RIGHT) {
           xOffset = boundingBox.width - linePadding.right - line.dimensions.width;
+        } else if (lineAlignment === TextAlignment.JUSTIFY) {
+          // Linha justificada ocupa toda a largura, com o espaço distribuído entre as palavras
+          lineWidth = Math.max(availableWidth, line.dimensions.width);
         }
 
         // Criar bounding box para esta linha
+        // (as palavras são alinhadas dentro dela, desconsiderando espaços no fim)
         const lineBoundingBox = {
           x: boundingBox.x + xOffset,
           y: yOffset,
-          width: line.dimensions.width,
+          width: lineWidth,
           height: line.dimensions.height,
         };
 
@@ -1503,19 +2437,29 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
             element.pageId,
             lineBoundingBox,
             {
-              content: line.content,
+              lines: [
+                positionTextLine(
+                  line.content,
+                  lineWidth,
+                  lineAlignment,
+                  0,
+                  measureBaselineOffset(currentContext, line.dimensions.height),
+                  baseLevel
+                ),
+              ],
               color: color,
               fontId: element.textConfig.fontId,
               fontSize: fontSize,
               letterSpacing: element.textConfig.letterSpacing,
               lineHeight: lineHeight,
+              textAlignment: lineAlignment,
             },
             0
           )
         );
 
         // Avançar para a próxima linha
-        yOffset += line.dimensions.height + (lineHeight - line.dimensions.height);
+        yOffset += textLineAdvance(line, fontSize, lineHeight, lineSpacingFactor);
       }
 
       if (currentContext.debugMode) {
@@ -1559,7 +2503,15 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
           element.pageId,
           boundingBox,
           {
-            content: element.measuredWords || [],
+            lines: [
+              positionTextLine(
+                element.measuredWords || [],
+                boundingBox.width,
+                TextAlignment.LEFT,
+                0,
+                baselineOffset
+              ),
+            ],
             color: color,
             fontId: element.textConfig.fontId,
             fontSize: fontSize,
@@ -1575,6 +2527,23 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     }
   }
 
+  // Texto e imagem não têm retângulo próprio: a borda é um comando à parte, por cima do conteúdo
+  if ((element.elementType === "text" || element.elementType === "image") && element.borders) {
+    pardal.addRenderCommand(
+      createRectangleCommand(
+        element.id,
+        element.pageId,
+        { ...boundingBox },
+        "transparent",
+        element.cornerRadius,
+        undefined,
+        undefined,
+        undefined,
+        element.borders
+      )
+    );
+  }
+
   // Se não houver filhos, não há nada mais a fazer
   if (element.children.length === 0) {
     return;
@@ -1586,6 +2555,24 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     );
   }
 
+  // Grades posicionam cada filho na área das suas células
+  if (element.grid) {
+    positionGridChildren(pardal, element, position);
+    return;
+  }
+
+  // Layouts com wrap posicionam os filhos linha a linha
+  if (element.layoutConfig.wrap) {
+    positionWrappedChildren(pardal, element, position);
+    return;
+  }
+
+  const isRowLayout = isRowDirection(element.layoutConfig.layoutDirection);
+  // Direções reversas posicionam do último filho para o primeiro
+  const children = isReverseDirection(element.layoutConfig.layoutDirection)
+    ? [...element.children].reverse()
+    : element.children;
+
   // Determinar posição inicial para os filhos
   let childStartX = position.x + element.layoutConfig.padding.left;
   let childStartY = position.y + element.layoutConfig.padding.top;
@@ -1596,27 +2583,27 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
   let childrenMaxWidth = 0;
   let childrenMaxHeight = 0;
 
-  if (element.layoutConfig.layoutDirection === Direction.ROW) {
+  if (isRowLayout) {
     // Para layout em linha, somar larguras e pegar altura máxima
-    for (let i = 0; i < element.children.length; i++) {
-      const child = element.children[i];
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
       childrenTotalWidth += child.dimensions.width;
       childrenMaxHeight = Math.max(childrenMaxHeight, child.dimensions.height);
 
       // Adicionar gap entre elementos
-      if (i < element.children.length - 1) {
+      if (i < children.length - 1) {
         childrenTotalWidth += element.layoutConfig.childGap;
       }
     }
   } else {
     // Layout em coluna: somar alturas e pegar largura máxima
-    for (let i = 0; i < element.children.length; i++) {
-      const child = element.children[i];
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
       childrenTotalHeight += child.dimensions.height;
       childrenMaxWidth = Math.max(childrenMaxWidth, child.dimensions.width);
 
       // Adicionar gap entre elementos
-      if (i < element.children.length - 1) {
+      if (i < children.length - 1) {
         childrenTotalHeight += element.layoutConfig.childGap;
       }
     }
@@ -1634,8 +2621,20 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     element.layoutConfig.padding.bottom -
     childrenTotalHeight;
 
+  // Modos de distribuição dividem o espaço livre entre os filhos no eixo principal
+  const spacing = mainAxisSpacing(
+    isRowLayout ? element.layoutConfig.childAlignment.x : element.layoutConfig.childAlignment.y,
+    isRowLayout ? availableWidth : availableHeight,
+    children.filter((child) => !child.absolute).length
+  );
+  if (isRowLayout) {
+    childStartX += spacing.leading;
+  } else {
+    childStartY += spacing.leading;
+  }
+
   // Aplicar alinhamento horizontal para o grupo de filhos
-  if (element.layoutConfig.layoutDirection === Direction.ROW) {
+  if (isRowLayout) {
     // No layout em linha, alinhamento horizontal afeta posição inicial X
     if (element.layoutConfig.childAlignment.x === LayoutAlignmentX.CENTER && availableWidth > 0) {
       childStartX += availableWidth / 2;
@@ -1661,8 +2660,8 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
   let currentX = childStartX;
   let currentY = childStartY;
 
-  for (let i = 0; i < element.children.length; i++) {
-    const child = element.children[i];
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
 
     // Pular o cálculo de posição para elementos com posicionamento absoluto
     if (child.absolute && child.position) {
@@ -1675,10 +2674,12 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     let childX = currentX;
     let childY = currentY;
 
-    // Aplicar alinhamento individual no eixo perpendicular
-    if (element.layoutConfig.layoutDirection === Direction.ROW) {
+    // Aplicar alinhamento individual no eixo perpendicular (alignSelf tem precedência)
+    const alignX = child.alignSelf?.x || element.layoutConfig.childAlignment.x;
+    const alignY = child.alignSelf?.y || element.layoutConfig.childAlignment.y;
+    if (isRowLayout) {
       // No layout em linha, o alinhamento vertical afeta cada filho individualmente
-      if (element.layoutConfig.childAlignment.y === LayoutAlignmentY.CENTER) {
+      if (alignY === LayoutAlignmentY.CENTER) {
         const childExtraHeight =
           height -
           element.layoutConfig.padding.top -
@@ -1687,7 +2688,7 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
         if (childExtraHeight > 0) {
           childY += childExtraHeight / 2;
         }
-      } else if (element.layoutConfig.childAlignment.y === LayoutAlignmentY.BOTTOM) {
+      } else if (alignY === LayoutAlignmentY.BOTTOM) {
         const childExtraHeight =
           height -
           element.layoutConfig.padding.top -
@@ -1699,14 +2700,14 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
       }
 
       // Atualizar posição X para o próximo filho
-      if (i < element.children.length - 1) {
-        currentX += child.dimensions.width + element.layoutConfig.childGap;
+      if (i < children.length - 1) {
+        currentX += child.dimensions.width + element.layoutConfig.childGap + spacing.between;
       } else {
         currentX += child.dimensions.width;
       }
     } else {
       // No layout em coluna, o alinhamento horizontal afeta cada filho individualmente
-      if (element.layoutConfig.childAlignment.x === LayoutAlignmentX.CENTER) {
+      if (alignX === LayoutAlignmentX.CENTER) {
         const childExtraWidth =
           width -
           element.layoutConfig.padding.left -
@@ -1715,7 +2716,7 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
         if (childExtraWidth > 0) {
           childX += childExtraWidth / 2;
         }
-      } else if (element.layoutConfig.childAlignment.x === LayoutAlignmentX.RIGHT) {
+      } else if (alignX === LayoutAlignmentX.RIGHT) {
         const childExtraWidth =
           width -
           element.layoutConfig.padding.left -
@@ -1727,8 +2728,8 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
       }
 
       // Atualizar posição Y para o próximo filho
-      if (i < element.children.length - 1) {
-        currentY += child.dimensions.height + element.layoutConfig.childGap;
+      if (i < children.length - 1) {
+        currentY += child.dimensions.height + element.layoutConfig.childGap + spacing.between;
       } else {
         currentY += child.dimensions.height;
       }
@@ -1738,3 +2739,137 @@ function positionElement(pardal: Pardal, element: LayoutElement, position: Vecto
     positionElement(pardal, child, { x: childX, y: childY });
   }
 }
+
+/**
+ * Fração do espaço livre antes de um filho: 0 (início), 0.5 (centro) ou 1 (fim)
+ * Os modos de distribuição (SPACE_*) alinham no início (ver mainAxisSpacing).
+ */
+function alignmentFraction(alignment: LayoutAlignmentX | LayoutAlignmentY): number {
+  if (alignment === LayoutAlignmentX.CENTER || alignment === LayoutAlignmentY.CENTER) {
+    return 0.5;
+  }
+  if (alignment === LayoutAlignmentX.RIGHT || alignment === LayoutAlignmentY.BOTTOM) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Espaço antes do primeiro filho e acrescentado a cada gap pelos modos de distribuição do
+ * eixo principal, como no CSS: SPACE_BETWEEN divide o espaço livre entre os filhos,
+ * SPACE_AROUND dá a cada filho metade de uma parte em cada lado e SPACE_EVENLY deixa
+ * espaços iguais também nas pontas. Outros alinhamentos não acrescentam espaço.
+ */
+function mainAxisSpacing(
+  alignment: LayoutAlignmentX | LayoutAlignmentY,
+  freeSpace: number,
+  count: number
+): { leading: number; between: number } {
+  if (freeSpace <= 0 || count === 0) {
+    return { leading: 0, between: 0 };
+  }
+
+  switch (alignment) {
+    case LayoutAlignmentX.SPACE_BETWEEN:
+    case LayoutAlignmentY.SPACE_BETWEEN:
+      return { leading: 0, between: count > 1 ? freeSpace / (count - 1) : 0 };
+    case LayoutAlignmentX.SPACE_AROUND:
+    case LayoutAlignmentY.SPACE_AROUND:
+      return { leading: freeSpace / count / 2, between: freeSpace / count };
+    case LayoutAlignmentX.SPACE_EVENLY:
+    case LayoutAlignmentY.SPACE_EVENLY:
+      return { leading: freeSpace / (count + 1), between: freeSpace / (count + 1) };
+    default:
+      return { leading: 0, between: 0 };
+  }
+}
+
+/**
+ * Posicionar os filhos de um layout com wrap, linha a linha
+ * O alinhamento do eixo principal vale para cada linha; o do eixo perpendicular, para o
+ * bloco de linhas e para cada filho dentro da sua linha. Em direções reversas, os filhos
+ * de cada linha ficam do último para o primeiro.
+ */
+function positionWrappedChildren(pardal: Pardal, element: LayoutElement, position: Vector2): void {
+  const { padding, childGap, childAlignment, layoutDirection } = element.layoutConfig;
+  const isRow = isRowDirection(layoutDirection);
+  const innerWidth = element.dimensions.width - padding.left - padding.right;
+  const innerHeight = element.dimensions.height - padding.top - padding.bottom;
+  const lines = wrapChildrenIntoLines(element, isRow ? innerWidth : innerHeight);
+
+  const mainAlignment = isRow ? childAlignment.x : childAlignment.y;
+  const mainAlign = alignmentFraction(mainAlignment);
+  const crossAlign = alignmentFraction(isRow ? childAlignment.y : childAlignment.x);
+  const childCrossAlign = (child: LayoutElement) => {
+    const alignSelf = isRow ? child.alignSelf?.y : child.alignSelf?.x;
+    return alignSelf ? alignmentFraction(alignSelf) : crossAlign;
+  };
+  const mainSize = (child: LayoutElement) =>
+    isRow ? child.dimensions.width : child.dimensions.height;
+  const crossSize = (child: LayoutElement) =>
+    isRow ? child.dimensions.height : child.dimensions.width;
+
+  const lineGap = wrapLineGap(element.layoutConfig);
+  const lineSizes = lines.map((line) => Math.max(0, ...line.children.map(crossSize)));
+  const blockSize =
+    lineSizes.reduce((sum, size) => sum + size, 0) + Math.max(0, lines.length - 1) * lineGap;
+  let crossOffset = Math.max(0, (isRow ? innerHeight : innerWidth) - blockSize) * crossAlign;
+
+  for (const [index, line] of lines.entries()) {
+    const children = isReverseDirection(layoutDirection)
+      ? [...line.children].reverse()
+      : line.children;
+    const lineMain =
+      children.reduce((sum, child) => sum + mainSize(child), 0) + (children.length - 1) * childGap;
+    const lineFree = Math.max(0, (isRow ? innerWidth : innerHeight) - lineMain);
+    const spacing = mainAxisSpacing(mainAlignment, lineFree, children.length);
+    let mainOffset = lineFree * mainAlign + spacing.leading;
+
+    for (const child of children) {
+      const childCross =
+        crossOffset + Math.max(0, lineSizes[index] - crossSize(child)) * childCrossAlign(child);
+      positionElement(pardal, child, {
+        x: position.x + padding.left + (isRow ? mainOffset : childCross),
+        y: position.y + padding.top + (isRow ? childCross : mainOffset),
+      });
+      mainOffset += mainSize(child) + childGap + spacing.between;
+    }
+
+    crossOffset += lineSizes[index] + lineGap;
+  }
+
+  // Filhos com posicionamento absoluto ficam onde foram declarados
+  for (const child of element.children) {
+    if (child.absolute && child.position) {
+      positionElement(pardal, child, child.position);
+    }
+  }
+}
+
+/**
+ * Posicionar os filhos de uma grade nas suas células
+ * Filhos menores que a área das células são alinhados nela pelo `alignSelf` do filho ou
+ * pelo `childAlignment` da grade.
+ */
+function positionGridChildren(pardal: Pardal, element: LayoutElement, position: Vector2): void {
+  const { padding, childAlignment } = element.layoutConfig;
+
+  for (const cell of gridCells(element)) {
+    const child = cell.element;
+    const alignX = alignmentFraction(child.alignSelf?.x || childAlignment.x);
+    const alignY = alignmentFraction(child.alignSelf?.y || childAlignment.y);
+    const extraWidth = Math.max(0, cell.width - child.dimensions.width);
+    const extraHeight = Math.max(0, cell.height - child.dimensions.height);
+    positionElement(pardal, child, {
+      x: position.x + padding.left + cell.x + extraWidth * alignX,
+      y: position.y + padding.top + cell.y + extraHeight * alignY,
+    });
+  }
+
+  // Filhos com posicionamento absoluto ficam onde foram declarados
+  for (const child of element.children) {
+    if (child.absolute && child.position) {
+      positionElement(pardal, child, child.position);
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import type { LayoutElement } from "~/domain/model/element";
+import {
+  DEFAULT_MAX_SIZE,
+  DEFAULT_MIN_SIZE,
+  type SizingAxis,
+  SizingType,
+} from "~/domain/model/types";
+import { Sizing } from "./sizing";
+
+// Posição de um filho na grade: primeira coluna e linha (a partir de 0) e quantas ocupa
+export interface GridPlacement {
+  element: LayoutElement;
+  column: number;
+  row: number;
+  colSpan: number;
+  rowSpan: number;
+}
+
+// Área das células de um filho, relativa à área de conteúdo da grade
+export interface GridCell {
+  element: LayoutElement;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Posicionar os filhos de uma grade nas células, na ordem de declaração
+ * Cada filho ocupa a primeira área livre com `colSpan` x `rowSpan` células a partir do
+ * filho anterior, percorrendo as linhas; novas linhas são criadas quando necessário.
+ */
+export function placeGridItems(element: LayoutElement): GridPlacement[] {
+  const columnCount = Math.max(1, element.grid?.columns.length || 0);
+  const occupied: boolean[][] = [];
+  const placements: GridPlacement[] = [];
+
+  const fits = (row: number, column: number, rowSpan: number, colSpan: number) => {
+    if (column + colSpan > columnCount) {
+      return false;
+    }
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = column; c < column + colSpan; c++) {
+        if (occupied[r]?.[c]) return false;
+      }
+    }
+    return true;
+  };
+
+  let row = 0;
+  let column = 0;
+
+  for (const child of element.children) {
+    if (child.absolute) continue;
+
+    const colSpan = Math.min(Math.max(1, child.colSpan || 1), columnCount);
+    const rowSpan = Math.max(1, child.rowSpan || 1);
+
+    while (!fits(row, column, rowSpan, colSpan)) {
+      column++;
+      if (column + colSpan > columnCount) {
+        column = 0;
+        row++;
+      }
+    }
+
+    for (let r = row; r < row + rowSpan; r++) {
+      occupied[r] = occupied[r] || [];
+      for (let c = column; c < column + colSpan; c++) {
+        occupied[r][c] = true;
+      }
+    }
+
+    placements.push({ element: child, column, row, colSpan, rowSpan });
+    column += colSpan;
+  }
+
+  return placements;
+}
+
+/**
+ * Trilhas de um eixo da grade: as colunas declaradas ou as linhas, completadas com
+ * linhas FIT até a última linha ocupada
+ */
+function gridTrackSizings(
+  element: LayoutElement,
+  isXAxis: boolean,
+  placements: GridPlacement[]
+): SizingAxis[] {
+  const grid = element.grid;
+  if (!grid) {
+    return [];
+  }
+  if (isXAxis) {
+    return grid.columns.length > 0 ? grid.columns : [Sizing.grow()];
+  }
+
+  const rowCount = Math.max(
+    grid.rows.length,
+    ...placements.map((placement) => placement.row + placement.rowSpan)
+  );
+  return Array.from({ length: rowCount }, (_, index) => grid.rows[index] || Sizing.fit());
+}
+
+/**
+ * Tamanho que um filho pede às trilhas FIT que ocupa: o fixo ou o mínimo do seu conteúdo
+ */
+function itemContentSize(child: LayoutElement, isXAxis: boolean): number {
+  const sizing = isXAxis ? child.layoutConfig.sizing.width : child.layoutConfig.sizing.height;
+  if (sizing.type === SizingType.FIXED) {
+    return sizing.size.fixed || 0;
+  }
+  if (sizing.type === SizingType.PERCENT) {
+    return 0;
+  }
+  return Math.max(
+    isXAxis ? child.minDimensions.width : child.minDimensions.height,
+    sizing.size.minMax?.min || DEFAULT_MIN_SIZE
+  );
+}
+
+// Tamanho de `span` trilhas a partir de `start`, com os gaps entre elas
+function spanSize(sizes: number[], start: number, span: number, gap: number): number {
+  return sizes.slice(start, start + span).reduce((sum, size) => sum + size, 0) + (span - 1) * gap;
+}
+
+// Posição de uma trilha a partir do início da área de conteúdo
+function trackOffset(sizes: number[], index: number, gap: number): number {
+  return sizes.slice(0, index).reduce((sum, size) => sum + size, 0) + index * gap;
+}
+
+/**
+ * Tamanhos das trilhas de um eixo da grade
+ * FIXED e PERCENT (do espaço sem os gaps) são resolvidos primeiro; FIT cabe o conteúdo dos
+ * filhos da trilha (filhos que ocupam várias trilhas dividem o que falta entre as FIT delas);
+ * GROW divide o espaço restante pelo peso (`Sizing.fr`). Sem `available` (dimensões
+ * mínimas), PERCENT e GROW ficam no seu mínimo.
+ */
+export function resolveGridTracks(
+  element: LayoutElement,
+  isXAxis: boolean,
+  available?: number
+): number[] {
+  const grid = element.grid;
+  if (!grid) {
+    return [];
+  }
+
+  const placements = placeGridItems(element);
+  const tracks = gridTrackSizings(element, isXAxis, placements);
+  const gap = isXAxis ? grid.columnGap : grid.rowGap;
+  const space = available !== undefined ? available - (tracks.length - 1) * gap : undefined;
+  const clamp = (track: SizingAxis, size: number) =>
+    Math.max(
+      Math.min(size, track.size.minMax?.max || DEFAULT_MAX_SIZE),
+      track.size.minMax?.min || DEFAULT_MIN_SIZE
+    );
+
+  const sizes = tracks.map((track) => {
+    switch (track.type) {
+      case SizingType.FIXED:
+        return track.size.fixed || 0;
+      case SizingType.PERCENT:
+        return clamp(track, space !== undefined ? space * (track.size.percent || 0) : 0);
+      default:
+        return clamp(track, 0);
+    }
+  });
+
+  const startOf = (placement: GridPlacement) => (isXAxis ? placement.column : placement.row);
+  const spanOf = (placement: GridPlacement) => (isXAxis ? placement.colSpan : placement.rowSpan);
+
+  // Filhos de uma única trilha primeiro, depois os que ocupam várias
+  const ordered = [...placements].sort((a, b) => spanOf(a) - spanOf(b));
+  for (const placement of ordered) {
+    const start = startOf(placement);
+    const span = spanOf(placement);
+    const fitTracks: number[] = [];
+    for (let index = start; index < start + span; index++) {
+      if (tracks[index].type === SizingType.FIT) fitTracks.push(index);
+    }
+    if (fitTracks.length === 0) continue;
+
+    const missing = itemContentSize(placement.element, isXAxis) - spanSize(sizes, start, span, gap);
+    if (missing <= 0) continue;
+
+    for (const index of fitTracks) {
+      sizes[index] = clamp(tracks[index], sizes[index] + missing / fitTracks.length);
+    }
+  }
+
+  if (space !== undefined) {
+    const growTracks = tracks
+      .map((track, index) => ({ track, index }))
+      .filter(({ track }) => track.type === SizingType.GROW);
+    const used = sizes.reduce(
+      (sum, size, index) => (tracks[index].type === SizingType.GROW ? sum : sum + size),
+      0
+    );
+    const totalWeight = growTracks.reduce((sum, { track }) => sum + (track.size.grow || 1), 0);
+    const freeSpace = Math.max(0, space - used);
+
+    for (const { track, index } of growTracks) {
+      sizes[index] = clamp(track, (freeSpace * (track.size.grow || 1)) / totalWeight);
+    }
+  }
+
+  return sizes;
+}
+
+/**
+ * Tamanho mínimo do conteúdo de uma grade em um eixo: as trilhas e os gaps entre elas
+ */
+export function gridContentSize(element: LayoutElement, isXAxis: boolean): number {
+  const sizes = resolveGridTracks(element, isXAxis);
+  const gap = isXAxis ? element.grid?.columnGap || 0 : element.grid?.rowGap || 0;
+  return spanSize(sizes, 0, sizes.length, gap);
+}
+
+/**
+ * Dimensionar as trilhas de um eixo da grade no espaço disponível e os filhos pelas suas
+ * células: FIXED mantém o tamanho, PERCENT é uma fração da área das células, e FIT e GROW
+ * ocupam a área inteira (respeitando min/max)
+ */
+export function sizeGridItems(element: LayoutElement, isXAxis: boolean, available: number): void {
+  const grid = element.grid;
+  if (!grid) {
+    return;
+  }
+
+  const sizes = resolveGridTracks(element, isXAxis, available);
+  const tracks = element.gridTracks || { columns: [], rows: [] };
+  element.gridTracks = isXAxis ? { ...tracks, columns: sizes } : { ...tracks, rows: sizes };
+
+  const gap = isXAxis ? grid.columnGap : grid.rowGap;
+  for (const placement of placeGridItems(element)) {
+    const child = placement.element;
+    const sizing = isXAxis ? child.layoutConfig.sizing.width : child.layoutConfig.sizing.height;
+    const cell = isXAxis
+      ? spanSize(sizes, placement.column, placement.colSpan, gap)
+      : spanSize(sizes, placement.row, placement.rowSpan, gap);
+    const minSize = sizing.size.minMax?.min || DEFAULT_MIN_SIZE;
+    const maxSize = sizing.size.minMax?.max || DEFAULT_MAX_SIZE;
+
+    let size: number;
+    if (sizing.type === SizingType.FIXED) {
+      size = sizing.size.fixed || 0;
+    } else if (sizing.type === SizingType.PERCENT) {
+      size = Math.max(Math.min(cell * (sizing.size.percent || 0), maxSize), minSize);
+    } else {
+      size = Math.max(Math.min(cell, maxSize), minSize);
+    }
+
+    if (isXAxis) {
+      child.dimensions.width = size;
+    } else {
+      child.dimensions.height = size;
+    }
+  }
+}
+
+/**
+ * Áreas das células de cada filho da grade, com as trilhas já distribuídas
+ */
+export function gridCells(element: LayoutElement): GridCell[] {
+  const grid = element.grid;
+  if (!grid) {
+    return [];
+  }
+
+  const columns = element.gridTracks?.columns || resolveGridTracks(element, true);
+  const rows = element.gridTracks?.rows || resolveGridTracks(element, false);
+
+  return placeGridItems(element).map((placement) => ({
+    element: placement.element,
+    x: trackOffset(columns, placement.column, grid.columnGap),
+    y: trackOffset(rows, placement.row, grid.rowGap),
+    width: spanSize(columns, placement.column, placement.colSpan, grid.columnGap),
+    height: spanSize(rows, placement.row, placement.rowSpan, grid.rowGap),
+  }));
+}
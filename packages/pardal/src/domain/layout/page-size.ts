@@ -0,0 +1,36 @@
+import type { Dimensions } from "../model/types";
+
+// Tamanhos de página comuns, em pontos (1/72 pol.), na orientação retrato
+export const PageSize = {
+  A3: { width: 842, height: 1191 } as Dimensions,
+  A4: { width: 595, height: 842 } as Dimensions,
+  A5: { width: 420, height: 595 } as Dimensions,
+  A6: { width: 298, height: 420 } as Dimensions,
+  LETTER: { width: 612, height: 792 } as Dimensions,
+  LEGAL: { width: 612, height: 1008 } as Dimensions,
+  TABLOID: { width: 792, height: 1224 } as Dimensions,
+  EXECUTIVE: { width: 522, height: 756 } as Dimensions,
+  ENVELOPE_DL: { width: 312, height: 624 } as Dimensions,
+  ENVELOPE_C5: { width: 459, height: 649 } as Dimensions,
+  ENVELOPE_10: { width: 297, height: 684 } as Dimensions,
+
+  /**
+   * Retorna o tamanho na orientação paisagem (lado maior na horizontal)
+   */
+  landscape(size: Dimensions): Dimensions {
+    return {
+      width: Math.max(size.width, size.height),
+      height: Math.min(size.width, size.height),
+    };
+  },
+
+  /**
+   * Retorna o tamanho na orientação retrato (lado maior na vertical)
+   */
+  portrait(size: Dimensions): Dimensions {
+    return {
+      width: Math.min(size.width, size.height),
+      height: Math.max(size.width, size.height),
+    };
+  },
+};
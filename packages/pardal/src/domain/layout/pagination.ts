@@ -0,0 +1,391 @@
+import type { LayoutElement } from "~/domain/model/element";
+import {
+  type BoundingBox,
+  Direction,
+  type Page,
+  type PardalContext,
+  SizingType,
+} from "~/domain/model/types";
+import type { RenderCommand } from "~/domain/rendering/commands";
+import type Pardal from "~/index";
+
+// Bloco indivisível de conteúdo: vai inteiro para uma única página
+interface FlowBlock {
+  top: number;
+  bottom: number;
+  commands: RenderCommand[];
+  header?: FlowHeader; // Cabeçalho repetido se o bloco abrir uma nova página
+}
+
+// Cabeçalho de um container (ex.: tabela), repetido no topo das páginas de continuação
+interface FlowHeader {
+  commands: RenderCommand[];
+  offsets: number[]; // Posição vertical de cada comando em relação ao topo do cabeçalho
+  height: number; // Altura do cabeçalho incluindo o espaçamento até o próximo filho
+}
+
+// Container aberto durante a paginação: seu fundo é repetido em cada página que ele atravessa
+interface FlowSpan {
+  element: LayoutElement;
+  isRoot: boolean;
+}
+
+// Região vertical da página onde o conteúdo pode fluir
+interface FlowRegion {
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Área da página disponível para o conteúdo, descontando cabeçalho e rodapé
+ */
+export function getPageContentBox(context: PardalContext, pageId: number): BoundingBox {
+  const page = context.pages.find((candidate) => candidate.id === pageId);
+  const sizes = page?.sizes || context.layoutDimensions;
+  const headerHeight = page?.headerHeight || 0;
+  const footerHeight = page?.footerHeight || 0;
+
+  return {
+    x: 0,
+    y: headerHeight,
+    width: sizes.width,
+    height: Math.max(0, sizes.height - headerHeight - footerHeight),
+  };
+}
+
+/**
+ * Paginação automática
+ * Divide o conteúdo das páginas em modo de fluxo que ultrapassa a altura da página,
+ * criando novas páginas físicas com o mesmo tamanho. A quebra acontece entre filhos
+ * de colunas e, dentro de textos, entre linhas já quebradas pelo layout.
+ */
+export function paginateRenderCommands(pardal: Pardal): void {
+  const context = pardal.getContext();
+
+  if (context.pages.length === 0) {
+    return;
+  }
+
+  const parentMap = buildParentMap(context);
+  const commandsById = new Map<string, RenderCommand[]>();
+  const commandsByPage = new Map<number, RenderCommand[]>();
+  for (const command of context.renderCommands) {
+    const commands = commandsById.get(command.id) || [];
+    commands.push(command);
+    commandsById.set(command.id, commands);
+
+    const pageCommands = commandsByPage.get(command.pageId) || [];
+    pageCommands.push(command);
+    commandsByPage.set(command.pageId, pageCommands);
+  }
+
+  const physicalPages: Page[] = [];
+  const paginatedCommands: RenderCommand[] = [];
+
+  for (const page of context.pages) {
+    const pageCommands = commandsByPage.get(page.id) || [];
+    const flow = page.autoPagination !== undefined ? page.autoPagination : context.autoPagination;
+
+    // Índice da página física (relativo a esta página lógica) de cada comando
+    const pageIndexOf = new Map<RenderCommand, number>();
+    let pageCount = 1;
+    let commands = pageCommands;
+
+    if (flow) {
+      const roots = context.layoutElements.filter(
+        (element) => element.pageId === page.id && !parentMap.has(element) && !element.absolute
+      );
+
+      for (const root of roots) {
+        const contentBox = getPageContentBox(context, page.id);
+        const result = flowRoot(root, contentBox, commandsById, pageIndexOf);
+        pageCount = Math.max(pageCount, result.pageCount);
+        // Os clones ocupam o lugar do comando original para preservar a ordem de pintura
+        commands = commands.flatMap((command) => result.replacements.get(command) || [command]);
+      }
+    }
+
+    // Renumerar as páginas físicas sequencialmente
+    const firstPhysicalId = physicalPages.length + 1;
+    for (let i = 0; i < pageCount; i++) {
+      physicalPages.push({ ...page, id: firstPhysicalId + i, declaredPageId: page.id });
+    }
+
+    for (const command of commands) {
+      command.pageId = firstPhysicalId + (pageIndexOf.get(command) || 0);
+      paginatedCommands.push(command);
+    }
+
+    if (context.debugMode && pageCount > 1) {
+      context.logger.debug(`Página ${page.id} dividida em ${pageCount} páginas físicas`);
+    }
+  }
+
+  context.pages = physicalPages;
+  pardal.setRenderCommands(paginatedCommands);
+}
+
+/**
+ * Distribui um elemento raiz entre páginas físicas
+ */
+function flowRoot(
+  root: LayoutElement,
+  contentBox: BoundingBox,
+  commandsById: Map<string, RenderCommand[]>,
+  pageIndexOf: Map<RenderCommand, number>
+): { pageCount: number; replacements: Map<RenderCommand, RenderCommand[]> } {
+  const contentBottom = contentBox.y + contentBox.height;
+  const region: FlowRegion = {
+    top: contentBox.y + root.layoutConfig.padding.top,
+    bottom: contentBottom - root.layoutConfig.padding.bottom,
+  };
+  const regionHeight = region.bottom - region.top;
+
+  const blocks: FlowBlock[] = [];
+  const spans: FlowSpan[] = [];
+
+  const subtreeCommands = (element: LayoutElement): RenderCommand[] => {
+    const commands = [...(commandsById.get(element.id) || [])];
+    for (const child of element.children) {
+      commands.push(...subtreeCommands(child));
+    }
+    return commands;
+  };
+
+  const blockFor = (commands: RenderCommand[], header?: FlowHeader): FlowBlock => ({
+    top: Math.min(...commands.map((command) => command.boundingBox.y)),
+    bottom: Math.max(
+      ...commands.map((command) => command.boundingBox.y + command.boundingBox.height)
+    ),
+    commands,
+    header,
+  });
+
+  // Fatiar um elemento que não cabe em uma página e não pode ser quebrado entre filhos:
+  // cada comando folha vira um bloco, e os containers internos viram spans
+  const slice = (element: LayoutElement, header?: FlowHeader) => {
+    spans.push({ element, isRoot: false });
+    const leaves: RenderCommand[] = [];
+    const collect = (current: LayoutElement) => {
+      for (const child of current.children) {
+        if (child.children.length > 0) {
+          spans.push({ element: child, isRoot: false });
+          collect(child);
+        } else {
+          leaves.push(...(commandsById.get(child.id) || []));
+        }
+      }
+    };
+    collect(element);
+    leaves.sort((a, b) => a.boundingBox.y - b.boundingBox.y);
+    for (const leaf of leaves) {
+      blocks.push(blockFor([leaf], header));
+    }
+  };
+
+  // Abrir um container em coluna, transformando cada filho em bloco(s)
+  const open = (element: LayoutElement, isRoot: boolean, inheritedHeader?: FlowHeader) => {
+    spans.push({ element, isRoot });
+
+    const headerRows = element.headerRows || 0;
+    let header = inheritedHeader;
+    let headerBlock: FlowBlock | undefined;
+
+    // Filhos na ordem visual, de cima para baixo (em COLUMN_REVERSE, do último ao primeiro)
+    const children = element.children
+      .map((child, index) => ({ child, index, commands: subtreeCommands(child) }))
+      .filter(({ commands }) => commands.length > 0)
+      .sort((a, b) => blockFor(a.commands).top - blockFor(b.commands).top);
+
+    for (const { child, index, commands } of children) {
+      // Filhos absolutos acompanham a primeira página do container
+      if (child.absolute) {
+        continue;
+      }
+
+      // Filhos de cabeçalho formam um único bloco, que acompanha o primeiro filho seguinte
+      if (index < headerRows) {
+        headerBlock = blockFor([...(headerBlock?.commands || []), ...commands], header);
+        continue;
+      }
+
+      if (headerBlock) {
+        // Na página de continuação o cabeçalho fica abaixo do padding do container
+        // (em tabelas, a linha de grade superior)
+        const headerTop = headerBlock.top - element.layoutConfig.padding.top;
+        const height = headerBlock.bottom - headerTop + element.layoutConfig.childGap;
+        // Um cabeçalho que ocupa a página inteira não é repetido
+        if (height < regionHeight) {
+          header = {
+            commands: headerBlock.commands,
+            offsets: headerBlock.commands.map((command) => command.boundingBox.y - headerTop),
+            height,
+          };
+        }
+
+        // Nunca deixar o cabeçalho sozinho no fim de uma página
+        const withFirstChild = blockFor([...headerBlock.commands, ...commands], headerBlock.header);
+        if (withFirstChild.bottom - withFirstChild.top <= regionHeight) {
+          blocks.push(withFirstChild);
+          headerBlock = undefined;
+          continue;
+        }
+
+        blocks.push(headerBlock);
+        headerBlock = undefined;
+      }
+
+      if (child.dimensions.height <= regionHeight) {
+        blocks.push(blockFor(commands, header));
+      } else if (child.elementType === "text") {
+        // Cada linha do texto é um comando próprio: quebrar entre linhas
+        const lines = [...commands].sort((a, b) => a.boundingBox.y - b.boundingBox.y);
+        for (const line of lines) {
+          blocks.push(blockFor([line], header));
+        }
+      } else if (
+        child.children.length > 0 &&
+        (child.layoutConfig.layoutDirection === Direction.COLUMN ||
+          child.layoutConfig.layoutDirection === Direction.COLUMN_REVERSE) &&
+        !child.grid
+      ) {
+        open(child, false, header);
+      } else if (child.children.length > 0) {
+        slice(child, header);
+      } else {
+        blocks.push(blockFor(commands, header));
+      }
+    }
+
+    if (headerBlock) {
+      blocks.push(headerBlock);
+    }
+  };
+
+  open(root, true);
+
+  // Posicionar os blocos, abrindo uma nova página quando um bloco não cabe na atual
+  const shifts = [0];
+  const pageStarts = [0];
+  let pageIndex = 0;
+  let pageHasContent = false;
+  const headerClones = new Map<RenderCommand, RenderCommand[]>();
+
+  for (const block of blocks) {
+    const shift = shifts[pageIndex];
+    if (pageHasContent && block.bottom - shift > region.bottom) {
+      pageIndex++;
+      const headerHeight = block.header ? block.header.height : 0;
+      shifts.push(block.top - region.top - headerHeight);
+      pageStarts.push(block.top);
+
+      // Repetir o cabeçalho do container no topo da nova página
+      if (block.header) {
+        for (const [i, command] of block.header.commands.entries()) {
+          const clone: RenderCommand = {
+            ...command,
+            boundingBox: { ...command.boundingBox, y: region.top + block.header.offsets[i] },
+          };
+          pageIndexOf.set(clone, pageIndex);
+          const clones = headerClones.get(command) || [command];
+          clones.push(clone);
+          headerClones.set(command, clones);
+        }
+      }
+    }
+
+    for (const command of block.commands) {
+      command.boundingBox = {
+        ...command.boundingBox,
+        y: command.boundingBox.y - shifts[pageIndex],
+      };
+      pageIndexOf.set(command, pageIndex);
+    }
+    pageHasContent = true;
+  }
+
+  const pageCount = pageIndex + 1;
+  // Os cabeçalhos repetidos são pintados logo após o cabeçalho original
+  const replacements = new Map<RenderCommand, RenderCommand[]>(headerClones);
+
+  if (pageCount === 1) {
+    return { pageCount, replacements };
+  }
+
+  // Repetir o fundo de cada container aberto em todas as páginas que ele atravessa
+  for (const span of spans) {
+    const spanRegion: FlowRegion = span.isRoot
+      ? { top: contentBox.y, bottom: contentBottom }
+      : region;
+    const fillsPage =
+      span.isRoot && span.element.layoutConfig.sizing.height.type === SizingType.GROW;
+    const content = span.isRoot
+      ? []
+      : span.element.children.flatMap((child) => subtreeCommands(child));
+
+    // Um container interno cortado termina logo após o seu conteúdo naquela página
+    const cutBottom = (k: number) => {
+      const bottoms = content
+        .filter((command) => pageIndexOf.get(command) === k)
+        .map((command) => command.boundingBox.y + command.boundingBox.height);
+      if (bottoms.length === 0) {
+        return spanRegion.bottom;
+      }
+      return Math.min(
+        contentBottom,
+        Math.max(...bottoms) + span.element.layoutConfig.padding.bottom
+      );
+    };
+
+    for (const command of commandsById.get(span.element.id) || []) {
+      const clones: RenderCommand[] = [];
+      replacements.set(command, clones);
+
+      // Uma raiz que cresce até a altura da página a preenche em todas as páginas físicas
+      const commandTop = command.boundingBox.y;
+      const commandBottom = fillsPage
+        ? Number.POSITIVE_INFINITY
+        : command.boundingBox.y + command.boundingBox.height;
+
+      for (let k = 0; k < pageCount; k++) {
+        const start = k === 0 ? Number.NEGATIVE_INFINITY : pageStarts[k];
+        const end = k === pageCount - 1 ? Number.POSITIVE_INFINITY : pageStarts[k + 1];
+        const top = Math.max(commandTop, start);
+        const bottom = Math.min(commandBottom, end);
+
+        if (bottom <= top) {
+          continue;
+        }
+
+        const drawnTop = top === start ? spanRegion.top : top - shifts[k];
+        const drawnBottom = bottom === end ? cutBottom(k) : bottom - shifts[k];
+
+        if (drawnBottom <= drawnTop) {
+          continue;
+        }
+
+        const clone: RenderCommand = {
+          ...command,
+          boundingBox: { ...command.boundingBox, y: drawnTop, height: drawnBottom - drawnTop },
+        };
+        pageIndexOf.set(clone, k);
+        clones.push(clone);
+      }
+    }
+  }
+
+  return { pageCount, replacements };
+}
+
+/**
+ * Mapear cada elemento para o seu pai
+ */
+function buildParentMap(context: PardalContext): Map<LayoutElement, LayoutElement> {
+  const parentMap = new Map<LayoutElement, LayoutElement>();
+  for (const element of context.layoutElements) {
+    for (const child of element.children) {
+      parentMap.set(child, element);
+    }
+  }
+  return parentMap;
+}
@@ -44,6 +44,23 @@ export const Sizing = {
     };
   },
 
+  /**
+   * Cria um dimensionamento que expande com um peso (fração) do espaço disponível,
+   * como as trilhas `fr` de uma grade: `fr(2)` recebe o dobro de `fr(1)`
+   * @param weight Peso em relação aos outros elementos GROW
+   * @param min Tamanho mínimo em pixels
+   * @param max Tamanho máximo em pixels
+   */
+  fr(weight = 1, min: number = DEFAULT_MIN_SIZE, max: number = DEFAULT_MAX_SIZE): SizingAxis {
+    return {
+      type: SizingType.GROW,
+      size: {
+        grow: weight,
+        minMax: { min, max },
+      },
+    };
+  },
+
   /**
    * Cria um dimensionamento percentual do tamanho do pai
    * @param percent Percentual (0 a 1)
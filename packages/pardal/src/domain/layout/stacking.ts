@@ -0,0 +1,66 @@
+import type { LayoutElement } from "~/domain/model/element";
+import type { RenderCommand } from "~/domain/rendering/commands";
+import type Pardal from "~/index";
+
+/**
+ * Ordem de pintura
+ * Cada elemento é um contexto de empilhamento: é pintado antes dos seus filhos, e os filhos
+ * são ordenados pelo `zIndex` (empates seguem a ordem de declaração). Filhos com `zIndex`
+ * negativo ficam por baixo do próprio pai. O `zIndex` de um elemento só o reordena entre os
+ * irmãos — toda a subárvore acompanha o elemento, e nada escapa do contexto do pai.
+ * O resultado é gravado no `zIndex` de cada comando, que o renderizador usa para ordenar.
+ */
+export function applyStackingOrder(pardal: Pardal): void {
+  const context = pardal.getContext();
+
+  const commandsById = new Map<string, RenderCommand[]>();
+  for (const command of context.renderCommands) {
+    const commands = commandsById.get(command.id) || [];
+    commands.push(command);
+    commandsById.set(command.id, commands);
+  }
+
+  const ordered: RenderCommand[] = [];
+
+  const paint = (element: LayoutElement) => {
+    const children = byZIndex(element.children);
+
+    for (const child of children.filter((candidate) => zIndexOf(candidate) < 0)) {
+      paint(child);
+    }
+
+    // Cada elemento pinta seus comandos uma única vez, na ordem em que foram gerados
+    ordered.push(...(commandsById.get(element.id) || []));
+    commandsById.delete(element.id);
+
+    for (const child of children.filter((candidate) => zIndexOf(candidate) >= 0)) {
+      paint(child);
+    }
+  };
+
+  const nestedElements = new Set(context.layoutElements.flatMap((element) => element.children));
+  const roots = context.layoutElements.filter((element) => !nestedElements.has(element));
+  for (const root of byZIndex(roots)) {
+    paint(root);
+  }
+
+  // Comandos sem elemento correspondente mantêm a ordem original, por cima do resto
+  for (const command of context.renderCommands) {
+    if (commandsById.get(command.id)?.includes(command)) {
+      ordered.push(command);
+    }
+  }
+
+  ordered.forEach((command, index) => {
+    command.zIndex = index;
+  });
+}
+
+function zIndexOf(element: LayoutElement): number {
+  return element.zIndex || 0;
+}
+
+// Ordenação estável: elementos com o mesmo zIndex mantêm a ordem de declaração
+function byZIndex(elements: LayoutElement[]): LayoutElement[] {
+  return [...elements].sort((a, b) => zIndexOf(a) - zIndexOf(b));
+}
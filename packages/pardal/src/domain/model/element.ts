@@ -1,15 +1,26 @@
 import type {
+  BorderConfig,
+  Borders,
   ChildAlignment,
   CornerRadius,
   Direction,
   ElementType,
+  Fill,
+  GridLayout,
   ImageElementConfig,
   ImageFitMode,
   LayoutConfig,
   Padding,
+  ShadowConfig,
   SizingAxis,
   TextAlignment,
+  TextDirection,
   TextElementConfig,
+  TextHyphens,
+  TextOverflow,
+  TextOverflowWrap,
+  TextSpan,
+  TextStyle,
   TextWrapMode,
   Vector2,
 } from "./types";
@@ -24,6 +35,11 @@ export interface MeasuredWord {
   next?: number; // Índice da próxima palavra
   bold?: boolean; // Indica se a palavra é negrito
   italic?: boolean; // Indica se a palavra é itálico
+  code?: boolean; // Indica se a palavra é código em linha (fonte monoespaçada)
+  font?: string; // Fonte alternativa escolhida pela cobertura de glifos (ver fallbackFonts)
+  style?: TextStyle; // Estilo do trecho de texto rico de onde a palavra veio
+  bidiLevel?: number; // Nível bidirecional (ímpar = direita para a esquerda), ver utils/bidi
+  breakBefore?: "break" | "hyphen"; // Oportunidade de quebra antes da palavra (ver utils/linebreak)
 }
 
 export interface WrappedTextLine {
@@ -31,6 +47,7 @@ export interface WrappedTextLine {
   content: MeasuredWord[];
   startOffset: number;
   length: number;
+  endsParagraph?: boolean; // Linha encerrada por uma quebra explícita (\n)
 }
 
 // Declaração de configuração de um elemento
@@ -38,16 +55,37 @@ export interface ElementDeclaration {
   id?: string;
   pageId?: number;
   layout?: Partial<LayoutConfig>;
-  backgroundColor?: string;
+  backgroundColor?: Fill;
   cornerRadius?: CornerRadius;
+  border?: BorderConfig; // Borda em todos os lados (ocupa espaço como padding)
+  borderTop?: BorderConfig;
+  borderRight?: BorderConfig;
+  borderBottom?: BorderConfig;
+  borderLeft?: BorderConfig;
+  shadow?: ShadowConfig; // Sombra desenhada por baixo do elemento
   padding?: number | Padding;
   childGap?: number;
   width?: SizingAxis;
   height?: SizingAxis;
-  fillColor?: string;
+  fillColor?: Fill;
   elementType?: ElementType;
   direction?: Direction;
   childAlignment?: ChildAlignment;
+  alignSelf?: Partial<ChildAlignment>; // Alinhamento deste filho, no lugar do childAlignment do pai
+  wrap?: boolean; // Quebra os filhos em linhas (ou colunas) quando não cabem
+  lineGap?: number; // Espaço entre as linhas do wrap (padrão: childGap)
+
+  // Propriedades de grade (ver Pardal.grid)
+  columns?: SizingAxis[]; // Trilhas das colunas da grade
+  rows?: SizingAxis[]; // Trilhas das linhas (as demais ajustam-se ao conteúdo)
+  gap?: number; // Espaço entre linhas e colunas (padrão: childGap)
+  columnGap?: number;
+  rowGap?: number;
+  colSpan?: number; // Colunas ocupadas por um filho da grade (padrão: 1)
+  rowSpan?: number; // Linhas ocupadas por um filho da grade (padrão: 1)
+  alignCells?: boolean; // Alinha as células dos filhos (linhas) como em uma tabela
+  headerRows?: number; // Filhos iniciais repetidos no topo de cada página de continuação
+  zIndex?: number; // Ordem de pintura entre os irmãos (padrão: 0, na ordem de declaração)
   
   // Propriedades para posicionamento absoluto
   x?: number;
@@ -56,19 +94,26 @@ export interface ElementDeclaration {
 
   // Propriedades de texto
   text?: TextElementConfig | string; // Conteúdo do texto ou configuração completa (para compatibilidade)
+  spans?: TextSpan[]; // Trechos de texto rico (ver Pardal.richText)
 
   // Propriedades individuais de formatação de texto
   // Estas podem ser usadas diretamente no objeto principal de configuração
   fontSize?: number;
-  color?: string;
+  color?: Fill;
   fontId?: number;
   letterSpacing?: number;
   lineHeight?: number;
   lineSpacingFactor?: number; // Fator de espaçamento entre linhas
   textAlignment?: TextAlignment;
   wrapMode?: TextWrapMode;
+  maxLines?: number;
+  overflow?: TextOverflow;
+  textDirection?: TextDirection; // Direção do texto (`direction` é a direção do layout)
+  hyphens?: TextHyphens;
+  lang?: string; // Idioma do texto (hifenização)
+  overflowWrap?: TextOverflowWrap;
   fontFamily?: string;
-  fontWeight?: string;
+  fontWeight?: number | string;
   fontStyle?: string;
 
   // Propriedades de imagem
@@ -93,8 +138,18 @@ export interface LayoutElement {
   position?: Vector2; // Posição do elemento no layout (x, y)
   absolute?: boolean; // Indica se o elemento usa posicionamento absoluto
   layoutConfig: LayoutConfig;
-  backgroundColor: string;
+  alignCells?: boolean; // Células das linhas filhas alinhadas em colunas (ver alignCellDimensions)
+  grid?: GridLayout; // Container em grade (ver layout/grid)
+  gridTracks?: { columns: number[]; rows: number[] }; // Tamanhos das trilhas já distribuídos
+  colSpan?: number;
+  rowSpan?: number;
+  headerRows?: number; // Quantidade de filhos iniciais que formam o cabeçalho repetido na paginação
+  alignSelf?: Partial<ChildAlignment>; // Sobrescreve o childAlignment do pai no eixo perpendicular
+  zIndex?: number; // Ordem de pintura entre os irmãos (ver applyStackingOrder)
+  backgroundColor: Fill;
   cornerRadius?: CornerRadius;
+  borders?: Borders; // Bordas por lado (já somadas ao padding do layout)
+  shadow?: ShadowConfig;
   opacity?: number;
   source?: Buffer;
   spreadness?: number;
@@ -1,10 +1,12 @@
 // Tipos básicos do domínio do Pardal
 
-import type { Logger } from "../utils/logger";
+import type { Font as FontkitFont } from "fontkit";
+import type Pardal from "~/index";
 import type { RenderCommand } from "../rendering/commands";
+import type { Logger } from "../utils/logger";
 import type { LayoutElement } from "./element";
-import type { PDFKitFactory } from "./pdfkit";
 import type { ImageFactory } from "./image";
+import type { PDFKitFactory } from "./pdfkit";
 
 // Representação de um ponto 2D
 export interface Vector2 {
@@ -34,8 +36,72 @@ export interface Padding {
   bottom: number;
 }
 
-// Raios dos cantos arredondados
-export type CornerRadius = number;
+// Raios dos cantos arredondados: um valor para todos os cantos ou um valor por canto
+export type CornerRadius = number | CornerRadii;
+
+// Raio de cada canto (cantos omitidos ficam retos)
+export interface CornerRadii {
+  topLeft?: number;
+  topRight?: number;
+  bottomRight?: number;
+  bottomLeft?: number;
+}
+
+// Estilo do traço de uma borda
+export type BorderStyle = "solid" | "dashed" | "dotted";
+
+// Borda de um lado do elemento
+export interface BorderConfig {
+  width: number;
+  color: string;
+  style?: BorderStyle; // Padrão: solid
+}
+
+// Bordas resolvidas por lado (lados sem borda ficam indefinidos)
+export interface Borders {
+  top?: BorderConfig;
+  right?: BorderConfig;
+  bottom?: BorderConfig;
+  left?: BorderConfig;
+}
+
+// Sombra projetada sob o elemento (como o box-shadow do CSS)
+export interface ShadowConfig {
+  offsetX?: number; // Deslocamento horizontal. Padrão: 0
+  offsetY?: number; // Deslocamento vertical. Padrão: 0
+  blur?: number; // Raio de desfoque em pontos (0 = sombra nítida, desenhada como vetor). Padrão: 0
+  spread?: number; // Expande (ou contrai, se negativo) a sombra. Padrão: 0
+  color?: string; // Padrão: #000000
+  opacity?: number; // Opacidade da sombra (0.0 - 1.0). Padrão: 0.25
+}
+
+// Parada de cor de um gradiente
+export interface GradientStop {
+  offset: number; // Posição ao longo do gradiente (0 - 1)
+  color: string;
+  opacity?: number; // Padrão: 1
+}
+
+// Gradiente linear; o ângulo segue a convenção do CSS (0 = para cima, 90 = para a direita)
+export interface LinearGradient {
+  type: "linear";
+  angle?: number; // Em graus. Padrão: 180 (de cima para baixo)
+  stops: GradientStop[];
+}
+
+// Gradiente radial a partir de um centro relativo à caixa do elemento
+export interface RadialGradient {
+  type: "radial";
+  centerX?: number; // Fração da largura (0 - 1). Padrão: 0.5
+  centerY?: number; // Fração da altura (0 - 1). Padrão: 0.5
+  radius?: number; // Em pontos. Padrão: distância até o canto mais distante
+  stops: GradientStop[];
+}
+
+export type Gradient = LinearGradient | RadialGradient;
+
+// Preenchimento: cor sólida ou gradiente
+export type Fill = string | Gradient;
 
 // Tipos de dimensionamento
 export enum SizingType {
@@ -49,6 +115,8 @@ export enum SizingType {
 export enum Direction {
   ROW = "row", // Horizontal - equivalente ao LEFT_TO_RIGHT do Clay
   COLUMN = "column", // Vertical - equivalente ao TOP_TO_BOTTOM do Clay
+  ROW_REVERSE = "row-reverse", // Horizontal, do último filho para o primeiro
+  COLUMN_REVERSE = "column-reverse", // Vertical, do último filho para o primeiro
 }
 
 // Alinhamento horizontal
@@ -56,6 +124,10 @@ export enum LayoutAlignmentX {
   LEFT = "LEFT",
   CENTER = "CENTER",
   RIGHT = "RIGHT",
+  // Distribuição no eixo principal de uma linha (no eixo perpendicular, valem como LEFT)
+  SPACE_BETWEEN = "SPACE_BETWEEN",
+  SPACE_AROUND = "SPACE_AROUND",
+  SPACE_EVENLY = "SPACE_EVENLY",
 }
 
 // Alinhamento vertical
@@ -63,6 +135,10 @@ export enum LayoutAlignmentY {
   TOP = "TOP",
   CENTER = "CENTER",
   BOTTOM = "BOTTOM",
+  // Distribuição no eixo principal de uma coluna (no eixo perpendicular, valem como TOP)
+  SPACE_BETWEEN = "SPACE_BETWEEN",
+  SPACE_AROUND = "SPACE_AROUND",
+  SPACE_EVENLY = "SPACE_EVENLY",
 }
 
 // Dimensionamento mínimo e máximo
@@ -78,6 +154,7 @@ export interface SizingAxis {
     minMax?: SizingMinMax;
     percent?: number;
     fixed?: number;
+    grow?: number; // Peso de um GROW na divisão do espaço livre (padrão: 1, ver Sizing.fr)
   };
 }
 
@@ -100,6 +177,16 @@ export interface LayoutConfig {
   childGap: number;
   childAlignment: ChildAlignment;
   layoutDirection: Direction;
+  wrap?: boolean; // Filhos que não cabem no eixo principal passam para uma nova linha
+  lineGap?: number; // Espaço entre as linhas de um layout com wrap (padrão: childGap)
+}
+
+// Grade de um container criado com `grid()`
+export interface GridLayout {
+  columns: SizingAxis[]; // Trilhas das colunas
+  rows: SizingAxis[]; // Trilhas das linhas; linhas além das declaradas ajustam-se ao conteúdo
+  columnGap: number;
+  rowGap: number;
 }
 
 // Tipos de elementos suportados
@@ -117,12 +204,51 @@ export enum TextAlignment {
   LEFT = "LEFT", // Alinhado à esquerda (padrão)
   CENTER = "CENTER", // Centralizado
   RIGHT = "RIGHT", // Alinhado à direita
+  JUSTIFY = "JUSTIFY", // Justificado (a última linha de cada parágrafo fica à esquerda)
+}
+
+// Texto que não cabe em `maxLines` ou na altura máxima do elemento
+// visible: transborda (padrão); clip: as linhas excedentes são omitidas;
+// ellipsis: como clip, terminando a última linha visível com "…"
+export type TextOverflow = "visible" | "clip" | "ellipsis";
+
+// Direção do texto: ltr (padrão), rtl ou auto (a do primeiro caractere forte)
+export type TextDirection = "ltr" | "rtl" | "auto";
+
+// Hifenização: none (nunca), manual (só nos hífens suaves, U+00AD; padrão)
+// ou auto (também pelos padrões registrados para o idioma com `registerHyphenation`)
+export type TextHyphens = "none" | "manual" | "auto";
+
+// Palavras maiores que a linha: break-word (padrão) quebra no meio; normal deixa transbordar
+export type TextOverflowWrap = "normal" | "break-word";
+
+// Estilo de um trecho de texto rico; o que não for definido vem do elemento de texto
+export interface TextStyle {
+  color?: Fill;
+  fontSize?: number;
+  fontFamily?: string; // Família registrada com `registerFont` ou fonte padrão do PDF ("Courier")
+  fontWeight?: number | string; // Peso usado para escolher a face da família registrada
+  fontStyle?: string; // "italic" escolhe a face itálica da família registrada
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  backgroundColor?: string; // Destaque atrás do trecho
+  superscript?: boolean;
+  subscript?: boolean;
+  link?: string; // URL aberta ao clicar no trecho
+}
+
+// Trecho de texto rico (ver Pardal.richText)
+export interface TextSpan extends TextStyle {
+  text: string;
 }
 
 // Configuração de elemento de texto
 export interface TextElementConfig {
   content: string; // Conteúdo do texto
-  color?: string; // Cor do texto
+  spans?: TextSpan[]; // Trechos de texto rico; `content` é a concatenação deles
+  color?: Fill; // Cor do texto (sólida ou gradiente)
   fontId?: number; // ID da fonte (0 = padrão)
   fontSize?: number; // Tamanho da fonte em pixels
   letterSpacing?: number; // Espaçamento adicional entre letras
@@ -130,8 +256,14 @@ export interface TextElementConfig {
   lineSpacingFactor?: number; // Fator de espaçamento entre linhas (padrão: valor do contexto)
   wrapMode?: TextWrapMode; // Modo de quebra de texto
   textAlignment?: TextAlignment; // Alinhamento horizontal do texto (LEFT, CENTER, RIGHT)
+  maxLines?: number; // Quantidade máxima de linhas exibidas
+  overflow?: TextOverflow; // Tratamento do texto que excede maxLines ou a altura do elemento
+  direction?: TextDirection; // Direção do parágrafo para o algoritmo bidirecional
+  hyphens?: TextHyphens; // Hifenização das palavras na quebra de linha
+  lang?: string; // Idioma do texto, usado na hifenização (padrão: o do documento)
+  overflowWrap?: TextOverflowWrap; // Quebra de palavras que não cabem inteiras na linha
   fontFamily?: string; // Família de fonte a usar
-  fontWeight?: string; // Peso da fonte (regular, bold, etc)
+  fontWeight?: number | string; // Peso da fonte (400, 700, "regular", "bold", etc)
   fontStyle?: string; // Estilo da fonte (normal, italic)
   // Nota: O texto é processado palavra por palavra e renderizado linha por linha,
   // similar à implementação do Clay. Isso permite quebras de linha adequadas,
@@ -148,6 +280,41 @@ export interface FontOptions {
   regularItalic?: string;
   boldItalic?: string;
   emoji?: string;
+  monospace?: string; // Fonte do código em linha (`código`)
+}
+
+// Variação de uma família de fontes registrada com `registerFont`
+export interface FontFaceConfig {
+  weight?: number | string; // De 100 a 900, ou um nome como "bold" (padrão: 400)
+  style?: "normal" | "italic"; // Padrão: normal
+  buffer: Uint8Array | ArrayBuffer; // Arquivo TTF, OTF ou WOFF
+}
+
+// Fonte registrada no documento, com o nome pelo qual o PDFKit a conhece
+export interface RegisteredFont {
+  family: string;
+  weight: number;
+  style: "normal" | "italic";
+  name: string;
+  buffer: Uint8Array | ArrayBuffer;
+  font?: FontkitFont; // Arquivo lido pelo fontkit no registro (métricas da fonte)
+}
+
+// Padrões de hifenização de um idioma, no formato do TeX (algoritmo de Liang)
+export interface HyphenationConfig {
+  patterns: string | string[]; // Ex.: "1ba .ab4c" ou ["1ba", ".ab4c"]
+  exceptions?: string | string[]; // Palavras com os pontos de hifenização explícitos: "ta-ble"
+  leftMin?: number; // Mínimo de letras antes do primeiro hífen (padrão: 2)
+  rightMin?: number; // Mínimo de letras depois do último hífen (padrão: 3)
+}
+
+// Padrões de hifenização compilados (ver compileHyphenation)
+export interface HyphenationPatterns {
+  patterns: Map<string, number[]>; // Letras do padrão => valores entre elas
+  exceptions: Map<string, number[]>; // Palavra => posições dos hífens
+  maxLength: number;
+  leftMin: number;
+  rightMin: number;
 }
 
 // Valores padrão
@@ -158,13 +325,15 @@ export const DEFAULT_ALPHA = 1.0;
 export const DEFAULT_PADDING = 0;
 
 // Fontes padrão para elementos de texto
+// As fontes padrão do PDF não têm variação fina: pesos leves usam a Helvetica regular
 export const DEFAULT_FONTS: FontOptions = {
-  thin: "Helvetica-Light",
+  thin: "Helvetica",
   regular: "Helvetica",
   bold: "Helvetica-Bold",
-  thinItalic: "Helvetica-LightOblique",
+  thinItalic: "Helvetica-Oblique",
   regularItalic: "Helvetica-Oblique",
   boldItalic: "Helvetica-BoldOblique",
+  monospace: "Courier",
 };
 
 /**
@@ -187,9 +356,32 @@ export enum ImageFitMode {
   COVER = "COVER", // Mantém proporções, cobre todo o espaço (pode cortar)
 }
 
+// Informações da página física, disponíveis para cabeçalhos e rodapés
+export interface PageInfo {
+  pageNumber: number; // Número da página física (começa em 1)
+  totalPages: number; // Total de páginas físicas do documento
+}
+
+// Callback que monta um cabeçalho ou rodapé, executado uma vez por página física
+export type PageTemplate = (pardal: Pardal, info: PageInfo) => void;
+
 export interface Page {
   sizes: Dimensions;
   id: number;
+  autoPagination?: boolean; // Sobrescreve a paginação automática do documento para esta página
+  header?: PageTemplate | null; // Sobrescreve o cabeçalho do documento (null remove)
+  footer?: PageTemplate | null; // Sobrescreve o rodapé do documento (null remove)
+  headerHeight?: number; // Altura reservada para o cabeçalho (calculada antes do layout)
+  footerHeight?: number; // Altura reservada para o rodapé (calculada antes do layout)
+  declaredPageId?: number; // Página declarada que originou esta página física (paginação)
+}
+
+// Configuração aceita por `page()`
+export interface PageConfig {
+  sizes?: Dimensions; // Dimensões da página (padrão: dimensões do documento)
+  autoPagination?: boolean; // Quebra o conteúdo que transborda em novas páginas
+  header?: PageTemplate | null; // Cabeçalho desta página (null remove o cabeçalho do documento)
+  footer?: PageTemplate | null; // Rodapé desta página (null remove o rodapé do documento)
 }
 
 // Contexto do Pardal
@@ -204,6 +396,10 @@ export interface PardalContext {
   idMap: Map<string, LayoutElement>;
   debugMode: boolean;
   fonts?: FontOptions;
+  registeredFonts: RegisteredFont[]; // Fontes incorporadas com `registerFont`
+  fallbackFonts: string[]; // Famílias usadas, em ordem, para caracteres ausentes na fonte do texto
+  lang: string; // Idioma padrão dos textos (ver TextElementConfig.lang)
+  hyphenation: Record<string, HyphenationPatterns>; // Padrões registrados por idioma
   pdfKitFactory: PDFKitFactory;
   imageFactory: ImageFactory;
   logger: Logger;
@@ -211,4 +407,59 @@ export interface PardalContext {
   currentPageId: number;
   useImageForEmojis: boolean;
   lineSpacingFactor: number;
-}
\ No newline at end of file
+  autoPagination: boolean;
+  header?: PageTemplate;
+  footer?: PageTemplate;
+}
+
+// Definição de uma coluna de tabela
+export interface TableColumn<T> {
+  header?: string; // Texto do cabeçalho da coluna
+  width?: SizingAxis; // Dimensionamento da coluna (padrão: grow), igual em todas as linhas
+  align?: TextAlignment; // Alinhamento horizontal do conteúdo das células
+  key?: keyof T; // Campo da linha exibido como texto quando não há `cell`
+  cell?: (row: T, rowIndex: number) => void; // Renderizador personalizado da célula
+}
+
+// Configuração aceita por `table()`
+export interface TableConfig<T> {
+  id?: string;
+  columns: TableColumn<T>[];
+  rows: T[];
+  width?: SizingAxis; // Largura da tabela (padrão: grow)
+  cellPadding?: number | Padding; // Padding interno das células (padrão: 8)
+  fontSize?: number; // Tamanho da fonte das células (padrão: 12)
+  color?: string; // Cor do texto das células
+  backgroundColor?: string; // Fundo das células do corpo
+  stripeColor?: string; // Fundo das linhas ímpares do corpo (zebra)
+  stripeFirstRow?: boolean; // Zebra a partir da 1ª linha do corpo (padrão: a partir da 2ª)
+  rowCornerRadius?: CornerRadius; // Raio dos cantos de cada linha (cantos externos das células)
+  showHeader?: boolean; // Exibe a linha de cabeçalho (padrão: true)
+  repeatHeader?: boolean; // Repete o cabeçalho nas páginas de continuação (padrão: true)
+  headerBackgroundColor?: string;
+  headerColor?: string;
+  headerFontSize?: number;
+  headerBold?: boolean; // Cabeçalho em negrito (padrão: true)
+  borderWidth?: number; // Espessura das linhas de grade (padrão: 0, sem bordas)
+  borderColor?: string; // Cor das linhas de grade
+}
+
+// Tema aceito por `markdown()`; o que não for definido usa o valor padrão
+export interface MarkdownTheme {
+  fontSize?: number; // Tamanho da fonte dos parágrafos (padrão: 12)
+  color?: string; // Cor do texto (padrão: #111827)
+  headingSizes?: number[]; // Tamanhos de h1 a h6 (padrão: 26, 21, 17, 15, 13, 12)
+  headingColor?: string; // Cor dos títulos (padrão: a cor do texto)
+  headingFontWeight?: number | string; // Peso da fonte dos títulos (padrão: "bold")
+  blockGap?: number; // Espaço entre blocos (padrão: 10)
+  listIndent?: number; // Largura reservada ao marcador dos itens de lista (padrão: 18)
+  bullet?: string; // Marcador das listas não numeradas (padrão: •)
+  quoteColor?: string; // Cor do texto das citações (padrão: #4B5563)
+  quoteBorderColor?: string; // Cor da barra lateral das citações (padrão: #D1D5DB)
+  codeFontSize?: number; // Tamanho da fonte dos blocos de código (padrão: 0,9 do texto)
+  codeColor?: string; // Cor do texto dos blocos de código (padrão: a cor do texto)
+  codeBackgroundColor?: string; // Fundo dos blocos de código (padrão: #F3F4F6)
+  ruleColor?: string; // Cor das linhas horizontais (padrão: #E5E7EB)
+  tableBorderColor?: string; // Cor das linhas de grade das tabelas (padrão: #D1D5DB)
+  tableHeaderBackgroundColor?: string; // Fundo do cabeçalho das tabelas (padrão: #F9FAFB)
+}
@@ -1,5 +1,5 @@
 import type { MeasuredWord } from "../model/element";
-import type { BoundingBox, CornerRadius } from "../model/types";
+import type { Borders, BoundingBox, CornerRadius, Fill, TextAlignment } from "../model/types";
 
 // Tipos de comandos de renderização
 export enum RenderCommandType {
@@ -9,6 +9,21 @@ export enum RenderCommandType {
   SCISSOR_END = "SCISSOR_END",
   TEXT = "TEXT",
   IMAGE = "IMAGE",
+  SHADOW = "SHADOW",
+}
+
+// Camadas de pintura de uma página: o conteúdo e, por cima dele, cabeçalho e rodapé
+export enum RenderLayer {
+  CONTENT = 0,
+  PAGE_TEMPLATE = 1,
+}
+
+// Linha de texto já posicionada pelo layout (coordenadas relativas à caixa do comando)
+export interface TextLineLayout {
+  content: MeasuredWord[];
+  x: number[]; // Posição horizontal de cada palavra (já alinhada/justificada)
+  top: number; // Topo da linha
+  baseline: number; // Linha de base onde as palavras são desenhadas
 }
 
 // Comando de renderização
@@ -18,22 +33,26 @@ export interface RenderCommand {
   boundingBox: BoundingBox;
   renderData: {
     rectangle?: {
-      backgroundColor: string;
+      backgroundColor: Fill;
       cornerRadius?: CornerRadius;
       opacity?: number;
       spreadness?: number;
       source?: Buffer;
+      borders?: Borders;
     };
     circle?: {
-      backgroundColor: string;
+      backgroundColor: Fill;
+      borders?: Borders;
     };
     text?: {
-      content: MeasuredWord[];
-      color: string;
+      content: MeasuredWord[]; // Todas as palavras do comando, na ordem das linhas
+      lines: TextLineLayout[];
+      color: Fill;
       fontId?: number;
       fontSize?: number;
       letterSpacing?: number;
       lineHeight?: number;
+      textAlignment?: TextAlignment; // Alinhamento da linha dentro da caixa do comando
     };
     image?: {
       source: Buffer;
@@ -42,9 +61,21 @@ export interface RenderCommand {
       cornerRadius?: CornerRadius;
       rounded?: boolean;
     };
+    shadow?: {
+      color: string;
+      opacity: number;
+      blur: number;
+      cornerRadius?: CornerRadius;
+    };
   };
   commandType: RenderCommandType;
   zIndex: number;
+  layer?: RenderLayer; // Camada de pintura (padrão: CONTENT); o zIndex ordena dentro da camada
+}
+
+// Ordem de pintura: pela camada e, dentro dela, pelo zIndex
+export function compareRenderOrder(a: RenderCommand, b: RenderCommand): number {
+  return (a.layer || RenderLayer.CONTENT) - (b.layer || RenderLayer.CONTENT) || a.zIndex - b.zIndex;
 }
 
 // Utilitários para criar comandos de renderização
@@ -52,11 +83,12 @@ export function createRectangleCommand(
   id: string,
   pageId: number,
   boundingBox: BoundingBox,
-  backgroundColor: string,
+  backgroundColor: Fill,
   cornerRadius?: CornerRadius,
   opacity?: number,
   spreadness?: number,
   source?: Buffer,
+  borders?: Borders,
   zIndex = 0
 ): RenderCommand {
   return {
@@ -70,6 +102,7 @@ export function createRectangleCommand(
         opacity,
         spreadness,
         source,
+        borders,
       },
     },
     commandType: RenderCommandType.RECTANGLE,
@@ -81,7 +114,8 @@ export function createCircleCommand(
   id: string,
   pageId: number,
   boundingBox: BoundingBox,
-  backgroundColor: string,
+  backgroundColor: Fill,
+  borders?: Borders,
   zIndex = 0
 ): RenderCommand {
   return {
@@ -91,6 +125,7 @@ export function createCircleCommand(
     renderData: {
       circle: {
         backgroundColor,
+        borders,
       },
     },
     commandType: RenderCommandType.CIRCLE,
@@ -102,8 +137,8 @@ export function createTextCommand(
   id: string,
   pageId: number,
   boundingBox: BoundingBox,
-  content: MeasuredWord[],
-  color: string,
+  lines: TextLineLayout[],
+  color: Fill,
   fontOptions: {
     fontId?: number;
     fontSize?: number;
@@ -118,7 +153,8 @@ export function createTextCommand(
     boundingBox,
     renderData: {
       text: {
-        content,
+        content: lines.flatMap((line) => line.content),
+        lines,
         color,
         fontId: fontOptions.fontId,
         fontSize: fontOptions.fontSize || 16,
@@ -137,12 +173,13 @@ export function createTextCommandFromConfig(
   pageId: number,
   boundingBox: BoundingBox,
   textConfig: {
-    content: MeasuredWord[];
-    color?: string;
+    lines: TextLineLayout[];
+    color?: Fill;
     fontId?: number;
     fontSize?: number;
     letterSpacing?: number;
     lineHeight?: number;
+    textAlignment?: TextAlignment;
   },
   zIndex = 0
 ): RenderCommand {
@@ -152,12 +189,14 @@ export function createTextCommandFromConfig(
     boundingBox,
     renderData: {
       text: {
-        content: textConfig.content,
+        content: textConfig.lines.flatMap((line) => line.content),
+        lines: textConfig.lines,
         color: textConfig.color || "#000000",
         fontId: textConfig.fontId,
         fontSize: textConfig.fontSize || 16,
         letterSpacing: textConfig.letterSpacing,
         lineHeight: textConfig.lineHeight,
+        textAlignment: textConfig.textAlignment,
       },
     },
     commandType: RenderCommandType.TEXT,
@@ -229,3 +268,31 @@ export function createImageCommandFromConfig(
     zIndex
   );
 }
+
+/**
+ * Cria um comando de sombra; a caixa já inclui o deslocamento e o spread
+ */
+export function createShadowCommand(
+  id: string,
+  pageId: number,
+  boundingBox: BoundingBox,
+  shadow: { color: string; opacity: number; blur: number },
+  cornerRadius?: CornerRadius,
+  zIndex = 0
+): RenderCommand {
+  return {
+    id,
+    pageId,
+    boundingBox,
+    renderData: {
+      shadow: {
+        color: shadow.color,
+        opacity: shadow.opacity,
+        blur: shadow.blur,
+        cornerRadius,
+      },
+    },
+    commandType: RenderCommandType.SHADOW,
+    zIndex,
+  };
+}
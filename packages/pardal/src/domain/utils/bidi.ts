@@ -0,0 +1,134 @@
+import type { TextDirection } from "../model/types";
+
+// Classe bidirecional de uma palavra, uma simplificação das classes do Unicode (UAX #9):
+// L e R são fortes, EN e AN são números (europeus e árabe-índicos) e N é neutro
+export type BidiClass = "L" | "R" | "EN" | "AN" | "N";
+
+// Escritas da direita para a esquerda: hebraico, árabe, siríaco, thaana, n'ko e afins
+const RTL_CHARS =
+  /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefe\u{10800}-\u{10fff}\u{1e800}-\u{1efff}]/u;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/;
+const EUROPEAN_DIGITS = /[0-9\u06f0-\u06f9]/;
+const LETTERS = /\p{L}/u;
+
+/**
+ * Verifica se um texto tem caracteres de escritas da direita para a esquerda
+ */
+export function hasRightToLeft(text: string): boolean {
+  return RTL_CHARS.test(text);
+}
+
+/**
+ * Classe de um caractere, ou undefined para os neutros
+ */
+function charBidiClass(char: string): BidiClass | undefined {
+  if (ARABIC_INDIC_DIGITS.test(char)) return "AN";
+  if (EUROPEAN_DIGITS.test(char)) return "EN";
+  if (RTL_CHARS.test(char)) return "R";
+  if (LETTERS.test(char)) return "L";
+  return undefined;
+}
+
+/**
+ * Classe de uma palavra: a do primeiro caractere forte; sem letras, a dos seus números
+ */
+export function bidiClassOf(text: string): BidiClass {
+  let number: BidiClass | undefined;
+
+  for (const char of text) {
+    const charClass = charBidiClass(char);
+    if (charClass === "L" || charClass === "R") {
+      return charClass;
+    }
+    if (charClass && !number) {
+      number = charClass;
+    }
+  }
+
+  return number || "N";
+}
+
+/**
+ * Nível base do parágrafo (0 = esquerda para a direita, 1 = direita para a esquerda)
+ * Em "auto", vale a direção do primeiro caractere forte do texto (regras P2 e P3).
+ */
+export function resolveBaseLevel(text: string, direction: TextDirection | undefined): number {
+  if (direction === "rtl") return 1;
+  if (direction !== "auto") return 0;
+
+  for (const char of text) {
+    const charClass = charBidiClass(char);
+    if (charClass === "L") return 0;
+    if (charClass === "R") return 1;
+  }
+  return 0;
+}
+
+/**
+ * Níveis de incorporação das palavras de um parágrafo, na ordem lógica
+ * Versão por palavras das regras W, N e I do algoritmo bidirecional, sem incorporações
+ * explícitas: números depois de texto LTR seguem o LTR (W7), neutros entre duas direções
+ * iguais seguem essa direção e os demais, a do parágrafo (N1 e N2).
+ */
+export function resolveBidiLevels(classes: BidiClass[], baseLevel: number): number[] {
+  const baseDirection = baseLevel % 2 === 1 ? "R" : "L";
+  // Para os neutros, números contam como R (N1)
+  const strongDirection = (bidiClass: BidiClass) => (bidiClass === "L" ? "L" : "R");
+
+  let lastStrong = baseDirection;
+  const resolved = classes.map((bidiClass): BidiClass => {
+    if (bidiClass === "L" || bidiClass === "R") {
+      lastStrong = bidiClass;
+    } else if (bidiClass === "EN" && lastStrong === "L") {
+      return "L";
+    }
+    return bidiClass;
+  });
+
+  for (let start = 0; start < resolved.length; start++) {
+    if (resolved[start] !== "N") continue;
+
+    let end = start;
+    while (end < resolved.length && resolved[end] === "N") end++;
+
+    const before = start > 0 ? strongDirection(resolved[start - 1]) : baseDirection;
+    const after = end < resolved.length ? strongDirection(resolved[end]) : baseDirection;
+    const direction = before === after ? before : baseDirection;
+    for (let i = start; i < end; i++) {
+      resolved[i] = direction;
+    }
+    start = end;
+  }
+
+  return resolved.map((bidiClass) => {
+    if (baseLevel % 2 === 0) {
+      return bidiClass === "L" ? baseLevel : bidiClass === "R" ? baseLevel + 1 : baseLevel + 2;
+    }
+    return bidiClass === "R" ? baseLevel : baseLevel + 1;
+  });
+}
+
+/**
+ * Ordem visual (da esquerda para a direita) dos itens de uma linha a partir dos seus níveis
+ * Regra L2: do maior nível até o menor nível ímpar, cada sequência contínua com pelo menos
+ * aquele nível é invertida.
+ */
+export function reorderVisually<T>(items: T[], levels: number[]): T[] {
+  const entries = items.map((item, index) => ({ item, level: levels[index] }));
+  const highest = Math.max(...levels);
+  const lowest = Math.min(...levels);
+  const lowestOdd = lowest % 2 === 1 ? lowest : lowest + 1;
+
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let start = 0; start < entries.length; start++) {
+      if (entries[start].level < level) continue;
+
+      let end = start;
+      while (end < entries.length && entries[end].level >= level) end++;
+      entries.splice(start, end - start, ...entries.slice(start, end).reverse());
+      start = end;
+    }
+  }
+
+  return entries.map((entry) => entry.item);
+}
@@ -0,0 +1,47 @@
+import type { BorderConfig, Borders, Padding } from "../model/types";
+
+// Converter as declarações de borda (geral e por lado) em bordas por lado
+export function parseBorders(config: {
+  border?: BorderConfig;
+  borderTop?: BorderConfig;
+  borderRight?: BorderConfig;
+  borderBottom?: BorderConfig;
+  borderLeft?: BorderConfig;
+}): Borders | undefined {
+  const borders: Borders = {
+    top: config.borderTop || config.border,
+    right: config.borderRight || config.border,
+    bottom: config.borderBottom || config.border,
+    left: config.borderLeft || config.border,
+  };
+
+  if (!borders.top && !borders.right && !borders.bottom && !borders.left) {
+    return undefined;
+  }
+
+  return borders;
+}
+
+// Espessura de cada lado da borda, no formato de padding
+export function borderWidths(borders: Borders | undefined): Padding {
+  return {
+    top: borders?.top?.width || 0,
+    right: borders?.right?.width || 0,
+    bottom: borders?.bottom?.width || 0,
+    left: borders?.left?.width || 0,
+  };
+}
+
+// Verdadeiro quando os quatro lados têm a mesma borda (desenhada como um único contorno)
+export function isUniformBorder(borders: Borders): boolean {
+  const sides = [borders.top, borders.right, borders.bottom, borders.left];
+  const [first] = sides;
+  return sides.every(
+    (side) =>
+      side &&
+      first &&
+      side.width === first.width &&
+      side.color === first.color &&
+      (side.style || "solid") === (first.style || "solid")
+  );
+}
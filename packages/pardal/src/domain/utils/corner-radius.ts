@@ -0,0 +1,57 @@
+import type { CornerRadii, CornerRadius } from "../model/types";
+
+// Converter o raio dos cantos em um raio por canto, limitado à metade do menor lado
+export function resolveCornerRadii(
+  radius: CornerRadius | undefined,
+  width: number,
+  height: number
+): Required<CornerRadii> {
+  const radii =
+    typeof radius === "number"
+      ? { topLeft: radius, topRight: radius, bottomRight: radius, bottomLeft: radius }
+      : radius || {};
+  const limit = Math.max(0, Math.min(width, height) / 2);
+  const clamp = (value: number | undefined) => Math.min(Math.max(value || 0, 0), limit);
+
+  return {
+    topLeft: clamp(radii.topLeft),
+    topRight: clamp(radii.topRight),
+    bottomRight: clamp(radii.bottomRight),
+    bottomLeft: clamp(radii.bottomLeft),
+  };
+}
+
+// Verdadeiro quando algum canto é arredondado
+export function hasCornerRadius(radius: CornerRadius | undefined): boolean {
+  if (typeof radius === "number") {
+    return radius > 0;
+  }
+  return !!radius && Object.values(radius).some((value) => (value || 0) > 0);
+}
+
+// Raios de um contorno interno, afastado `inset` das bordas (usado no traço das bordas)
+export function insetCornerRadii(
+  radii: Required<CornerRadii>,
+  inset: number
+): Required<CornerRadii> {
+  return {
+    topLeft: Math.max(0, radii.topLeft - inset),
+    topRight: Math.max(0, radii.topRight - inset),
+    bottomRight: Math.max(0, radii.bottomRight - inset),
+    bottomLeft: Math.max(0, radii.bottomLeft - inset),
+  };
+}
+
+// Raios de uma sombra com spread: como no CSS, só os cantos arredondados crescem
+export function spreadCornerRadii(
+  radii: Required<CornerRadii>,
+  spread: number
+): Required<CornerRadii> {
+  const grow = (value: number) => (value > 0 ? Math.max(0, value + spread) : 0);
+  return {
+    topLeft: grow(radii.topLeft),
+    topRight: grow(radii.topRight),
+    bottomRight: grow(radii.bottomRight),
+    bottomLeft: grow(radii.bottomLeft),
+  };
+}
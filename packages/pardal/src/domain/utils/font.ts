@@ -0,0 +1,251 @@
+import { type Font as FontkitFont, create as createFontkitFont } from "fontkit";
+import type { PDFDocument } from "../model/pdfkit";
+import type { RegisteredFont } from "../model/types";
+import { isEmoji } from "./emoji";
+
+// Trecho de texto desenhado com uma única fonte
+export interface FontRun {
+  text: string;
+  font: string;
+}
+
+// Pesos nomeados, na escala CSS de 100 a 900
+const NAMED_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+// Fontes padrão do PDF, disponíveis sem registro
+const STANDARD_FONTS = new Set([
+  "Courier",
+  "Courier-Bold",
+  "Courier-Oblique",
+  "Courier-BoldOblique",
+  "Helvetica",
+  "Helvetica-Bold",
+  "Helvetica-Oblique",
+  "Helvetica-BoldOblique",
+  "Times-Roman",
+  "Times-Bold",
+  "Times-Italic",
+  "Times-BoldItalic",
+  "Symbol",
+  "ZapfDingbats",
+]);
+
+// Ascendente das fontes padrão (métricas AFM, em milésimos do tamanho da fonte)
+const STANDARD_ASCENDERS: Record<string, number> = {
+  Courier: 629,
+  "Courier-Bold": 629,
+  "Courier-Oblique": 629,
+  "Courier-BoldOblique": 629,
+  Helvetica: 718,
+  "Helvetica-Bold": 718,
+  "Helvetica-Oblique": 718,
+  "Helvetica-BoldOblique": 718,
+  "Times-Roman": 683,
+  "Times-Bold": 683,
+  "Times-Italic": 683,
+  "Times-BoldItalic": 683,
+};
+
+// Caracteres do WinAnsi (a codificação das fontes padrão) fora do Latin-1, de 0x80 a 0x9F
+const WIN_ANSI_EXTRAS = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+
+// Variações das famílias padrão: regular, negrito, itálico e negrito itálico
+const STANDARD_FAMILIES: Record<string, [string, string, string, string]> = {
+  courier: ["Courier", "Courier-Bold", "Courier-Oblique", "Courier-BoldOblique"],
+  helvetica: ["Helvetica", "Helvetica-Bold", "Helvetica-Oblique", "Helvetica-BoldOblique"],
+  times: ["Times-Roman", "Times-Bold", "Times-Italic", "Times-BoldItalic"],
+  "times-roman": ["Times-Roman", "Times-Bold", "Times-Italic", "Times-BoldItalic"],
+};
+
+/**
+ * Converte um peso de fonte (número ou nome, como em CSS) para a escala de 100 a 900
+ */
+export function normalizeFontWeight(weight: number | string | undefined): number {
+  if (weight === undefined) {
+    return 400;
+  }
+  if (typeof weight === "number") {
+    return weight;
+  }
+
+  const named = NAMED_WEIGHTS[weight.toLowerCase().replace(/[\s_-]/g, "")];
+  if (named !== undefined) {
+    return named;
+  }
+
+  const parsed = Number.parseInt(weight, 10);
+  return Number.isNaN(parsed) ? 400 : parsed;
+}
+
+export function isStandardFont(name: string): boolean {
+  return STANDARD_FONTS.has(name);
+}
+
+/**
+ * Variação de uma família padrão do PDF para o peso e o estilo pedidos
+ * Pesos a partir de 600 usam a variação negrito; as famílias padrão não têm pesos finos.
+ * Nomes de variações específicas (como "Courier-Bold") são mantidos como estão.
+ */
+export function standardFontVariant(
+  family: string,
+  weight: number,
+  italic: boolean
+): string | undefined {
+  const variants = STANDARD_FAMILIES[family.toLowerCase()];
+  if (!variants) {
+    return isStandardFont(family) ? family : undefined;
+  }
+  return variants[(weight >= 600 ? 1 : 0) + (italic ? 2 : 0)];
+}
+
+/**
+ * Escolhe a face registrada de uma família mais próxima do peso e do estilo pedidos
+ * O estilo tem prioridade sobre o peso; retorna undefined se a família não foi registrada
+ */
+export function findRegisteredFont(
+  fonts: RegisteredFont[],
+  family: string,
+  weight: number,
+  style: "normal" | "italic"
+): RegisteredFont | undefined {
+  const familyName = family.toLowerCase();
+  let best: RegisteredFont | undefined;
+  let bestScore = Number.POSITIVE_INFINITY;
+
+  for (const font of fonts) {
+    if (font.family.toLowerCase() !== familyName) continue;
+
+    const score = (font.style === style ? 0 : 1000) + Math.abs(font.weight - weight);
+    if (score < bestScore) {
+      best = font;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Lê um arquivo de fonte com o fontkit; de coleções (TTC) é usada a primeira fonte
+ */
+export function parseFontFile(buffer: Uint8Array | ArrayBuffer): FontkitFont | undefined {
+  try {
+    const parsed = createFontkitFont(new Uint8Array(buffer) as unknown as Buffer);
+    return "fonts" in parsed ? parsed.fonts[0] : parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ascendente de uma fonte, em pontos por ponto de fonte: as métricas AFM das fontes padrão
+ * ou as da fonte registrada (pelo nome ou pela família); undefined para fontes desconhecidas
+ */
+export function fontAscent(name: string, fonts: RegisteredFont[]): number | undefined {
+  const standard = STANDARD_ASCENDERS[name];
+  if (standard !== undefined) {
+    return standard / 1000;
+  }
+
+  const registered =
+    fonts.find((font) => font.name === name) || findRegisteredFont(fonts, name, 400, "normal");
+  const font = registered?.font;
+  return font ? font.ascent / font.unitsPerEm : undefined;
+}
+
+/**
+ * Registra as fontes do documento em uma instância do PDFKit
+ * Cada instância (de medição ou de renderização) conhece apenas as fontes registradas nela.
+ */
+export function applyRegisteredFonts(doc: PDFDocument, fonts: RegisteredFont[]): void {
+  for (const font of fonts) {
+    doc.registerFont(font.name, font.buffer as ArrayBuffer);
+  }
+}
+
+/**
+ * Verifica se uma fonte tem glifos para todos os caracteres do texto
+ * Fontes padrão só codificam o WinAnsi; as registradas são consultadas no arquivo lido pelo
+ * fontkit. Fontes desconhecidas são consideradas completas.
+ */
+export function fontHasGlyphs(name: string, text: string, fonts: RegisteredFont[]): boolean {
+  if (isStandardFont(name)) {
+    for (const char of text) {
+      const codePoint = char.codePointAt(0) || 0;
+      const latin1 =
+        (codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff);
+      if (!latin1 && !WIN_ANSI_EXTRAS.has(char)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  const font = fonts.find((candidate) => candidate.name === name)?.font;
+  if (!font) {
+    return true;
+  }
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) || 0;
+    // Seletores de variação e o ZWJ não precisam de glifo próprio
+    if (codePoint === 0x200d || (codePoint >= 0xfe00 && codePoint <= 0xfe0f)) continue;
+    if (!font.hasGlyphForCodePoint(codePoint)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Divide um texto em trechos pela cobertura de glifos: cada caractere usa a primeira fonte
+ * da cadeia (a fonte principal seguida das alternativas) que o contém
+ * Assim como em `splitByEmoji`, a divisão é feita por grafemas; emojis e caracteres que
+ * nenhuma fonte cobre ficam com a fonte principal.
+ */
+export function splitByFontCoverage(
+  text: string,
+  fonts: string[],
+  registeredFonts: RegisteredFont[]
+): FontRun[] {
+  const segmenter = new Intl.Segmenter("pt-BR", { granularity: "grapheme" });
+  const runs: FontRun[] = [];
+  const coverage = new Map<string, boolean>();
+
+  const covers = (font: string, grapheme: string) => {
+    const key = `${font}\u0000${grapheme}`;
+    let covered = coverage.get(key);
+    if (covered === undefined) {
+      covered = fontHasGlyphs(font, grapheme, registeredFonts);
+      coverage.set(key, covered);
+    }
+    return covered;
+  };
+
+  for (const { segment } of segmenter.segment(text)) {
+    const font =
+      isEmoji(segment) || /^\s+$/.test(segment)
+        ? fonts[0]
+        : fonts.find((candidate) => covers(candidate, segment)) || fonts[0];
+
+    const last = runs[runs.length - 1];
+    if (last && last.font === font) {
+      last.text += segment;
+    } else {
+      runs.push({ text: segment, font });
+    }
+  }
+
+  return runs;
+}
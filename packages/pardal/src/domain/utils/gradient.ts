@@ -0,0 +1,44 @@
+import type { BoundingBox, Fill, Gradient, LinearGradient, RadialGradient } from "../model/types";
+
+// Verdadeiro quando o preenchimento é um gradiente (e não uma cor sólida)
+export function isGradient(fill: Fill | undefined): fill is Gradient {
+  return typeof fill === "object" && fill !== null && Array.isArray(fill.stops);
+}
+
+// Pontos inicial e final de um gradiente linear sobre a caixa, como no CSS:
+// a linha passa pelo centro e tem o comprimento necessário para cobrir os cantos
+export function linearGradientPoints(
+  gradient: LinearGradient,
+  box: BoundingBox
+): { x1: number; y1: number; x2: number; y2: number } {
+  const degrees = gradient.angle !== undefined ? gradient.angle : 180;
+  const angle = (degrees * Math.PI) / 180;
+  const dx = Math.sin(angle);
+  const dy = -Math.cos(angle);
+  const halfLength = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+
+  return {
+    x1: centerX - dx * halfLength,
+    y1: centerY - dy * halfLength,
+    x2: centerX + dx * halfLength,
+    y2: centerY + dy * halfLength,
+  };
+}
+
+// Centro e raio de um gradiente radial sobre a caixa
+export function radialGradientGeometry(
+  gradient: RadialGradient,
+  box: BoundingBox
+): { cx: number; cy: number; radius: number } {
+  const cx = box.x + box.width * (gradient.centerX !== undefined ? gradient.centerX : 0.5);
+  const cy = box.y + box.height * (gradient.centerY !== undefined ? gradient.centerY : 0.5);
+  // Sem raio explícito, alcança o canto mais distante do centro
+  const farthestX = Math.max(cx - box.x, box.x + box.width - cx);
+  const farthestY = Math.max(cy - box.y, box.y + box.height - cy);
+
+  const radius = gradient.radius !== undefined ? gradient.radius : Math.hypot(farthestX, farthestY);
+
+  return { cx, cy, radius };
+}
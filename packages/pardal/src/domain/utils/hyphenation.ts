@@ -0,0 +1,118 @@
+import type { HyphenationConfig, HyphenationPatterns } from "../model/types";
+
+const DEFAULT_LEFT_MIN = 2;
+const DEFAULT_RIGHT_MIN = 3;
+
+// Aceita a lista de padrões como texto separado por espaços (como nos arquivos do TeX) ou array
+function toEntries(source: string | string[] | undefined): string[] {
+  if (!source) {
+    return [];
+  }
+  return (Array.isArray(source) ? source : source.split(/\s+/)).filter((entry) => entry !== "");
+}
+
+/**
+ * Compila padrões de hifenização no formato do TeX (algoritmo de Liang)
+ * Cada padrão, como "1ba" ou ".ab4c", vira as letras sem os dígitos e o valor de cada
+ * posição entre elas; exceções ("hy-phen-ation") definem os hífens de palavras inteiras.
+ */
+export function compileHyphenation(config: HyphenationConfig): HyphenationPatterns {
+  const patterns = new Map<string, number[]>();
+  let maxLength = 0;
+
+  for (const pattern of toEntries(config.patterns)) {
+    const letters = pattern.replace(/\d/g, "").toLowerCase();
+    const values = new Array<number>(letters.length + 1).fill(0);
+
+    let position = 0;
+    for (const char of pattern) {
+      if (/\d/.test(char)) {
+        values[position] = Number(char);
+      } else {
+        position++;
+      }
+    }
+
+    patterns.set(letters, values);
+    maxLength = Math.max(maxLength, letters.length);
+  }
+
+  const exceptions = new Map<string, number[]>();
+  for (const exception of toEntries(config.exceptions)) {
+    const parts = exception.toLowerCase().split("-");
+    const breaks: number[] = [];
+    let offset = 0;
+    for (const part of parts.slice(0, -1)) {
+      offset += part.length;
+      breaks.push(offset);
+    }
+    exceptions.set(parts.join(""), breaks);
+  }
+
+  return {
+    patterns,
+    exceptions,
+    maxLength,
+    leftMin: config.leftMin !== undefined ? config.leftMin : DEFAULT_LEFT_MIN,
+    rightMin: config.rightMin !== undefined ? config.rightMin : DEFAULT_RIGHT_MIN,
+  };
+}
+
+/**
+ * Divide uma palavra nas sílabas em que ela pode ser hifenizada
+ * Os valores de todos os padrões encontrados na palavra são combinados pelo máximo;
+ * valores ímpares entre duas letras são pontos de hifenização.
+ */
+export function hyphenateWord(word: string, hyphenation: HyphenationPatterns): string[] {
+  const lower = word.toLowerCase();
+  if (lower.length < hyphenation.leftMin + hyphenation.rightMin) {
+    return [word];
+  }
+
+  let breaks = hyphenation.exceptions.get(lower);
+
+  if (!breaks) {
+    const padded = `.${lower}.`;
+    const values = new Array<number>(padded.length + 1).fill(0);
+
+    for (let start = 0; start < padded.length; start++) {
+      const end = Math.min(padded.length, start + hyphenation.maxLength);
+      for (let stop = start + 1; stop <= end; stop++) {
+        const pattern = hyphenation.patterns.get(padded.slice(start, stop));
+        if (!pattern) continue;
+        for (let i = 0; i < pattern.length; i++) {
+          values[start + i] = Math.max(values[start + i], pattern[i]);
+        }
+      }
+    }
+
+    // values[i + 1] é o valor entre as letras i - 1 e i da palavra (o "." inicial desloca 1)
+    breaks = [];
+    for (let i = hyphenation.leftMin; i <= lower.length - hyphenation.rightMin; i++) {
+      if (values[i + 1] % 2 === 1) {
+        breaks.push(i);
+      }
+    }
+  }
+
+  const syllables: string[] = [];
+  let previous = 0;
+  for (const position of breaks) {
+    syllables.push(word.slice(previous, position));
+    previous = position;
+  }
+  syllables.push(word.slice(previous));
+  return syllables;
+}
+
+/**
+ * Padrões registrados para um idioma: os do idioma exato ("pt-BR") ou os do idioma
+ * principal ("pt")
+ */
+export function findHyphenation(
+  registry: Record<string, HyphenationPatterns>,
+  lang: string
+): HyphenationPatterns | undefined {
+  const tag = lang.toLowerCase();
+  return registry[tag] || registry[tag.split(/[-_]/)[0]];
+}
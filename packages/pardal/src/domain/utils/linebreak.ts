@@ -0,0 +1,126 @@
+import type { MeasuredWord } from "../model/element";
+import type { HyphenationPatterns, TextHyphens } from "../model/types";
+import { hyphenateWord } from "./hyphenation";
+
+// Parte de uma palavra entre duas oportunidades de quebra de linha
+export type LineBreakPiece = Pick<MeasuredWord, "text" | "breakBefore">;
+
+const SOFT_HYPHEN = "\u00ad";
+const ZERO_WIDTH_SPACE = "\u200b";
+
+// Caracteres que podem ter oportunidades de quebra no meio de uma palavra
+const MAY_BREAK =
+  /[-/\u00ad\u200b\u2010\u2013\u1100-\u11ff\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+// Hífens e barras: a quebra fica depois deles (classes HY, BA e SY do UAX #14)
+const BREAK_AFTER = /^[-/\u2010\u2013]$/;
+const ALPHANUMERIC = /^[\p{L}\p{N}]/u;
+// Ideogramas, kana, hangul e a pontuação de largura total: quebra entre quaisquer dois (ID)
+const IDEOGRAPHIC =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f\uff00-\uffef]/u;
+// Pontuação de fechamento e kana pequenos não começam linha; a de abertura não a termina
+const NO_BREAK_BEFORE =
+  /^[\p{Pe}\p{Pf}!,.:;?\u3001\u3002\u30fc\u3005\u303b\uff01\uff0c\uff0e\uff1a\uff1b\uff1f\u3041\u3043\u3045\u3047\u3049\u3063\u3083\u3085\u3087\u308e\u3095\u3096\u30a1\u30a3\u30a5\u30a7\u30a9\u30c3\u30e3\u30e5\u30e7\u30ee\u30f5\u30f6]/u;
+const NO_BREAK_AFTER = /^[\p{Ps}\p{Pi}]/u;
+const LETTERS = /[\p{L}\p{M}]+/gu;
+
+/**
+ * Remove os caracteres que só marcam oportunidades de quebra (hífen suave e espaço de
+ * largura zero) e não são desenhados
+ */
+export function removeBreakControls(text: string): string {
+  return text.replace(/[\u00ad\u200b]/g, "");
+}
+
+/**
+ * Posições (índices no texto) dos pontos de hifenização das palavras de um texto
+ */
+function hyphenationPoints(text: string, hyphenation: HyphenationPatterns): Set<number> {
+  const points = new Set<number>();
+
+  for (const match of text.matchAll(LETTERS)) {
+    let offset = match.index || 0;
+    for (const syllable of hyphenateWord(match[0], hyphenation).slice(0, -1)) {
+      offset += syllable.length;
+      points.add(offset);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Divide uma palavra (texto sem espaços) nas oportunidades de quebra de linha do UAX #14
+ * que ficam dentro dela: depois de hífens e barras entre letras ou números, entre
+ * ideogramas (CJK), no espaço de largura zero e nos hífens suaves. Com `hyphens: "auto"`,
+ * os pontos de hifenização dos padrões do idioma também são oportunidades.
+ * Cada parte indica em `breakBefore` o tipo de quebra antes dela; "hyphen" pede um hífen
+ * no fim da linha se a quebra acontecer ali.
+ */
+export function splitAtBreakOpportunities(
+  text: string,
+  hyphens: TextHyphens = "manual",
+  hyphenation?: HyphenationPatterns
+): LineBreakPiece[] {
+  const automatic = hyphens === "auto" && hyphenation !== undefined;
+  if (!automatic && !MAY_BREAK.test(text)) {
+    return [{ text }];
+  }
+
+  // Hífens suaves já indicam onde a palavra pode ser hifenizada
+  const points =
+    automatic && !text.includes(SOFT_HYPHEN)
+      ? hyphenationPoints(text, hyphenation)
+      : new Set<number>();
+
+  const segmenter = new Intl.Segmenter("en", { granularity: "grapheme" });
+  const pieces: LineBreakPiece[] = [];
+  let current = "";
+  let previous = "";
+  let beforePrevious = "";
+  let pending: LineBreakPiece["breakBefore"];
+  let pieceBreak: LineBreakPiece["breakBefore"];
+
+  for (const { segment, index } of segmenter.segment(text)) {
+    if (segment === SOFT_HYPHEN || segment === ZERO_WIDTH_SPACE) {
+      if (current && (segment === ZERO_WIDTH_SPACE || hyphens !== "none")) {
+        pending = segment === ZERO_WIDTH_SPACE ? "break" : "hyphen";
+      }
+      continue;
+    }
+
+    if (current && !pending) {
+      if (points.has(index)) {
+        pending = "hyphen";
+      } else if (
+        BREAK_AFTER.test(previous) &&
+        ALPHANUMERIC.test(beforePrevious) &&
+        ALPHANUMERIC.test(segment)
+      ) {
+        pending = "break";
+      } else if (
+        (IDEOGRAPHIC.test(previous) || IDEOGRAPHIC.test(segment)) &&
+        !NO_BREAK_BEFORE.test(segment) &&
+        !NO_BREAK_AFTER.test(previous)
+      ) {
+        pending = "break";
+      }
+    }
+
+    if (pending) {
+      pieces.push({ text: current, breakBefore: pieceBreak });
+      pieceBreak = pending;
+      pending = undefined;
+      current = "";
+    }
+
+    current += segment;
+    beforePrevious = previous;
+    previous = segment;
+  }
+
+  if (current) {
+    pieces.push({ text: current, breakBefore: pieceBreak });
+  }
+
+  return pieces;
+}
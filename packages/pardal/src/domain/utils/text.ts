@@ -1,12 +1,33 @@
 import type { MeasuredWord } from "../model/element";
+import { type PageInfo, TextAlignment, type TextSpan, type TextStyle } from "../model/types";
+
+// Marcadores Markdown em linha que abrem e fecham um estilo
+type InlineMarker = "bold" | "italic" | "strike" | "underline";
+
+type InlineToken =
+  | { kind: "text"; text: string; code?: boolean }
+  | { kind: "marker"; marker: InlineMarker; raw: string; canOpen: boolean; canClose: boolean }
+  | { kind: "link"; url?: string }; // Início (com url) ou fim de um link
+
+// Caracteres que podem ser escapados com barra invertida
+const ESCAPABLE = "\\*_~`[]()";
+
 /**
- * Processa um texto com formatação Markdown básica (negrito e itálico)
+ * Processa um texto com formatação Markdown em linha
  * e retorna um array de segmentos de texto com suas propriedades.
  *
  * Suporta:
  * - **texto** para negrito
  * - *texto* para itálico
  * - ***texto*** para negrito e itálico
+ * - `texto` para código (fonte monoespaçada)
+ * - ~~texto~~ para tachado
+ * - __texto__ para sublinhado
+ * - [texto](url) para links
+ * - \* (e os demais marcadores) para o caractere literal
+ *
+ * Marcadores sem par (como em "hotel 5* "), sem nada entre o par ou em sequências longas
+ * (como "________") ficam no texto como caracteres comuns.
  *
  * @param text Texto com formatação Markdown
  * @returns Array de segmentos de texto com suas propriedades de estilo, onde cada palavra é um segmento separado
@@ -16,111 +37,353 @@ export function parseText(text: string): Partial<MeasuredWord>[] {
 
   // Se não há marcadores, retornar texto dividido em palavras
   // Note: este caso simples também preservará espaços nos resultados
-  if (!text.includes("*")) {
+  if (!/[*_~`[\\]/.test(text)) {
     return (
       text.match(/(\S+|\s+)/g)?.map((word) => ({ text: word, bold: false, italic: false })) || []
     );
   }
 
-  // Implementação de máquina de estados para processamento de Markdown
+  const tokens = tokenizeInline(text);
+  pairMarkers(tokens);
+
+  // Percorrer os tokens aplicando os estilos abertos em cada trecho
   const segments: Partial<MeasuredWord>[] = [];
+  const active: Record<InlineMarker, boolean> = {
+    bold: false,
+    italic: false,
+    strike: false,
+    underline: false,
+  };
+  let link: string | undefined;
+
+  for (const token of tokens) {
+    if (token.kind === "marker") {
+      active[token.marker] = !active[token.marker];
+      continue;
+    }
+    if (token.kind === "link") {
+      link = token.url;
+      continue;
+    }
 
-  // Estados da máquina
-  let inBold = false;
-  let inItalic = false;
+    const style: TextStyle = {};
+    if (active.strike) style.strikethrough = true;
+    if (active.underline) style.underline = true;
+    if (link) style.link = link;
+
+    segments.push({
+      text: token.text,
+      bold: active.bold,
+      italic: active.italic,
+      code: token.code,
+      style: Object.keys(style).length > 0 ? style : undefined,
+    });
+  }
+
+  return splitSegments(segments);
+}
+
+/**
+ * Separa o texto em trechos literais, código, links e marcadores de estilo
+ */
+function tokenizeInline(text: string): InlineToken[] {
+  const tokens: InlineToken[] = [];
   let currentText = "";
 
-  // Função auxiliar para adicionar segmento atual
-  const addCurrentSegment = () => {
+  // Função auxiliar para adicionar o texto literal acumulado
+  const flushText = () => {
     if (currentText) {
-      segments.push({
-        text: currentText,
-        bold: inBold,
-        italic: inItalic,
-      });
+      tokens.push({ kind: "text", text: currentText });
       currentText = "";
     }
   };
 
-  // Processar caractere por caractere
+  // Marcadores só abrem antes de texto e só fecham depois de texto (regra de flanco do CommonMark)
+  const pushMarker = (marker: InlineMarker, raw: string, start: number, end: number) => {
+    flushText();
+    const before = start > 0 ? text[start - 1] : " ";
+    const after = end < text.length ? text[end] : " ";
+    tokens.push({
+      kind: "marker",
+      marker,
+      raw,
+      canOpen: !/\s/.test(after),
+      canClose: !/\s/.test(before),
+    });
+  };
+
+  // Fim do texto do link aberto ("](url)") e do seu destino, se houver
+  let linkEnd = -1;
+  let linkUrlEnd = -1;
+
   for (let i = 0; i < text.length; i++) {
-    // Detectar marcadores Markdown
-    if (text[i] === "*") {
-      // Verificar se é negrito (dois asteriscos)
-      if (i + 1 < text.length && text[i + 1] === "*") {
-        // Finalizamos o segmento atual
-        addCurrentSegment();
-
-        // Alternar estado de negrito
-        inBold = !inBold;
-
-        // Pular o segundo asterisco
-        i++;
+    const char = text[i];
+
+    // Caractere escapado: sempre literal
+    if (char === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      currentText += text[i + 1];
+      i++;
+      continue;
+    }
+
+    // Código em linha: conteúdo literal até a crase de fechamento
+    if (char === "`") {
+      const close = text.indexOf("`", i + 1);
+      if (close > i + 1) {
+        flushText();
+        tokens.push({ kind: "text", text: text.slice(i + 1, close), code: true });
+        i = close;
+        continue;
+      }
+    }
+
+    // Link: [texto](url), quando o fechamento existe
+    if (char === "[" && linkEnd < 0) {
+      const labelEnd = text.indexOf("](", i + 1);
+      const urlEnd = labelEnd >= 0 ? findLinkUrlEnd(text, labelEnd + 2) : -1;
+      if (labelEnd > i + 1 && urlEnd > labelEnd + 2) {
+        flushText();
+        tokens.push({ kind: "link", url: text.slice(labelEnd + 2, urlEnd) });
+        linkEnd = labelEnd;
+        linkUrlEnd = urlEnd;
         continue;
       }
+    }
+    if (i === linkEnd) {
+      flushText();
+      tokens.push({ kind: "link" });
+      i = linkUrlEnd;
+      linkEnd = -1;
+      continue;
+    }
 
-      // É itálico (um asterisco)
-      addCurrentSegment();
+    if (char === "*" || char === "~" || char === "_") {
+      // A sequência inteira de marcadores é um único token
+      let run = 1;
+      while (text[i + run] === char) run++;
 
-      // Alternar estado de itálico
-      inItalic = !inItalic;
+      if (char === "*" && run <= 3) {
+        // *** abre/fecha negrito e itálico juntos
+        if (run >= 2) {
+          pushMarker("bold", "**", i, i + run);
+        }
+        if (run !== 2) {
+          pushMarker("italic", "*", i, i + run);
+        }
+      } else if (char !== "*" && run === 2) {
+        pushMarker(char === "~" ? "strike" : "underline", char + char, i, i + 2);
+      } else {
+        // Outras sequências (como "________" em uma linha de assinatura) são texto
+        currentText += text.slice(i, i + run);
+      }
+      i += run - 1;
       continue;
     }
 
     // Texto normal
-    currentText += text[i];
+    currentText += char;
   }
 
-  // Adicionar último segmento
-  addCurrentSegment();
+  flushText();
+  return tokens;
+}
 
-  // Remover marcadores não fechados e dividir em palavras
-  return cleanSegments(segments);
+/**
+ * Posição do ")" que fecha o destino de um link iniciado em `start`
+ * O destino pode ter parênteses balanceados, como em "wiki/Pardal_(ave)".
+ */
+function findLinkUrlEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")") {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
 }
 
 /**
- * Limpa e corrige segmentos, removendo marcadores Markdown não fechados corretamente
- * e preserva os espaços como "palavras" individuais
+ * Associa cada marcador de abertura ao próximo de fechamento do mesmo tipo
+ * Marcadores sem par, ou sem nada entre o par, voltam a ser texto literal
  */
-function cleanSegments(segments: Partial<MeasuredWord>[]): Partial<MeasuredWord>[] {
-  // Primeiro limpamos os segmentos para remover marcadores que sobraram
-  const cleanedSegments = segments
-    .map((segment) => {
-      return {
-        ...segment,
-        // Remover possíveis marcadores Markdown que sobraram no texto
-        text: (segment.text || "").replace(/\*\*/g, "").replace(/\*/g, ""),
-      };
-    })
-    .filter((segment) => segment.text.length > 0);
+function pairMarkers(tokens: InlineToken[]): void {
+  const open: Partial<Record<InlineMarker, number>> = {};
+  const paired = new Set<number>();
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== "marker") return;
+
+    const opener = open[token.marker];
+    const hasContent =
+      opener !== undefined && tokens.slice(opener + 1, index).some((t) => t.kind === "text");
+    if (opener !== undefined && token.canClose && hasContent) {
+      paired.add(opener);
+      paired.add(index);
+      open[token.marker] = undefined;
+    } else if (token.canOpen) {
+      open[token.marker] = index;
+    }
+  });
+
+  tokens.forEach((token, index) => {
+    if (token.kind === "marker" && !paired.has(index)) {
+      tokens[index] = { kind: "text", text: token.raw };
+    }
+  });
+}
+
+/**
+ * Divide os segmentos em palavras, preservando os espaços como "palavras" individuais
+ * (segmentos de texto literal vizinhos com o mesmo estilo são unidos antes)
+ */
+function splitSegments(segments: Partial<MeasuredWord>[]): Partial<MeasuredWord>[] {
+  const merged: Partial<MeasuredWord>[] = [];
+
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && sameInlineStyle(previous, segment)) {
+      previous.text = (previous.text || "") + segment.text;
+    } else if (segment.text) {
+      merged.push({ ...segment });
+    }
+  }
 
-  // Agora dividimos cada segmento preservando os espaços como palavras individuais
   const wordSegments: Partial<MeasuredWord>[] = [];
 
-  for (const segment of cleanedSegments) {
+  for (const segment of merged) {
     // Usamos regex para capturar tanto palavras quanto espaços como tokens separados
     // O regex (\S+|\s+) captura sequências de caracteres não-espaço OU sequências de espaços
-    const tokens = segment.text.match(/(\S+|\s+)/g) || [];
+    const tokens = (segment.text || "").match(/(\S+|\s+)/g) || [];
 
     for (const token of tokens) {
-      wordSegments.push({
-        text: token,
-        bold: segment.bold,
-        italic: segment.italic,
-      });
+      wordSegments.push({ ...segment, text: token });
     }
   }
   return wordSegments;
 }
 
+function sameInlineStyle(a: Partial<MeasuredWord>, b: Partial<MeasuredWord>): boolean {
+  return (
+    a.bold === b.bold &&
+    a.italic === b.italic &&
+    a.code === b.code &&
+    a.style?.strikethrough === b.style?.strikethrough &&
+    a.style?.underline === b.style?.underline &&
+    a.style?.link === b.style?.link
+  );
+}
+
 /**
  * Remove os marcadores Markdown do texto e retorna um array de palavras individuais
  */
 export function stripMarkdown(text: string): string[] {
-  const cleanText = text
-    .replace(/\*\*/g, "") // Remove **
-    .replace(/\*/g, ""); // Remove *
+  const cleanText = parseText(text)
+    .map((word) => word.text)
+    .join("");
 
   // Divide o texto em palavras individuais e remove espaços vazios
   return cleanText.split(/\s+/).filter((word) => word.length > 0);
 }
+
+/**
+ * Substitui os marcadores de página ({pageNumber} e {totalPages}) pelos valores da página física
+ */
+export function resolvePageTokens(text: string, info: PageInfo): string {
+  return text
+    .replace(/\{pageNumber\}/g, String(info.pageNumber))
+    .replace(/\{totalPages\}/g, String(info.totalPages));
+}
+
+/**
+ * Converte trechos de texto rico em palavras, preservando os espaços como palavras próprias
+ * O texto dos trechos é literal: asteriscos não são interpretados como Markdown
+ */
+export function parseSpans(spans: TextSpan[]): Partial<MeasuredWord>[] {
+  const words: Partial<MeasuredWord>[] = [];
+
+  for (const { text, ...style } of spans) {
+    const tokens = (text || "").match(/(\S+|\s+)/g) || [];
+    for (const token of tokens) {
+      words.push({ text: token, bold: !!style.bold, italic: !!style.italic, style });
+    }
+  }
+
+  return words;
+}
+
+// Proporção do tamanho da fonte usada em sobrescritos e subscritos
+const SCRIPT_SCALE = 0.7;
+
+// Tamanho de fonte efetivo de uma palavra (trechos podem ter tamanho próprio)
+export function wordFontSize(word: Partial<MeasuredWord>, baseSize: number): number {
+  const size = word.style?.fontSize || baseSize;
+  return word.style?.superscript || word.style?.subscript ? size * SCRIPT_SCALE : size;
+}
+
+// Deslocamento vertical da linha de base de uma palavra (negativo = para cima)
+export function wordBaselineShift(word: Partial<MeasuredWord>, baseSize: number): number {
+  const size = word.style?.fontSize || baseSize;
+  if (word.style?.superscript) {
+    return -size * 0.35;
+  }
+  if (word.style?.subscript) {
+    return size * 0.15;
+  }
+  return 0;
+}
+
+// Verdadeiro para palavras formadas só por espaços em branco
+export function isWhitespace(word: MeasuredWord): boolean {
+  return word.text.trim().length === 0;
+}
+
+/**
+ * Posição inicial e espaço extra por espaço em branco de uma linha dentro da sua caixa
+ * Espaços nas pontas da linha não contam na largura usada para centralizar ou alinhar à
+ * direita. Na justificação, a sobra é distribuída igualmente entre os espaços internos.
+ */
+export function alignTextLine(
+  content: MeasuredWord[],
+  boxWidth: number,
+  alignment: TextAlignment | undefined
+): { offset: number; extraSpace: number } {
+  let first = 0;
+  let last = content.length - 1;
+  while (first <= last && isWhitespace(content[first])) first++;
+  while (last >= first && isWhitespace(content[last])) last--;
+
+  let leadingWidth = 0;
+  for (let i = 0; i < first; i++) {
+    leadingWidth += content[i].width;
+  }
+
+  let visibleWidth = 0;
+  let gaps = 0;
+  for (let i = first; i <= last; i++) {
+    visibleWidth += content[i].width;
+    if (isWhitespace(content[i])) {
+      gaps++;
+    }
+  }
+
+  const freeSpace = boxWidth - visibleWidth;
+
+  switch (alignment) {
+    case TextAlignment.CENTER:
+      return { offset: freeSpace / 2 - leadingWidth, extraSpace: 0 };
+    case TextAlignment.RIGHT:
+      return { offset: freeSpace - leadingWidth, extraSpace: 0 };
+    case TextAlignment.JUSTIFY:
+      return {
+        offset: 0,
+        extraSpace: gaps > 0 && freeSpace > leadingWidth ? (freeSpace - leadingWidth) / gaps : 0,
+      };
+    default:
+      return { offset: 0, extraSpace: 0 };
+  }
+}
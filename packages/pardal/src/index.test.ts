@@ -1,7 +1,41 @@
 import { describe, expect, test } from "bun:test";
-import { LayoutAlignmentX, LayoutAlignmentY, SizingType } from "./domain/model/types";
-import { RenderCommandType } from "./domain/rendering/commands";
-import Pardal, { Sizing, Alignment, measureWords, wrapTextIntoLines } from "./index";
+import { readFileSync } from "node:fs";
+import { inflateSync } from "node:zlib";
+import { getFontForWord } from "./domain/layout/engine";
+import type { ElementDeclaration } from "./domain/model/element";
+import {
+  DEFAULT_FONTS,
+  LayoutAlignmentX,
+  LayoutAlignmentY,
+  type PageInfo,
+  type RegisteredFont,
+  SizingType,
+  type TableConfig,
+} from "./domain/model/types";
+import { RenderCommandType, compareRenderOrder } from "./domain/rendering/commands";
+import {
+  bidiClassOf,
+  reorderVisually,
+  resolveBaseLevel,
+  resolveBidiLevels,
+} from "./domain/utils/bidi";
+import { resolveCornerRadii } from "./domain/utils/corner-radius";
+import { fontHasGlyphs, splitByFontCoverage } from "./domain/utils/font";
+import { linearGradientPoints, radialGradientGeometry } from "./domain/utils/gradient";
+import { compileHyphenation, hyphenateWord } from "./domain/utils/hyphenation";
+import { splitAtBreakOpportunities } from "./domain/utils/linebreak";
+import { alignTextLine, parseText } from "./domain/utils/text";
+import Pardal, {
+  Alignment,
+  DefaultPDFKitFactory,
+  Direction,
+  NullLogger,
+  PageSize,
+  Sizing,
+  TextAlignment,
+  measureWords,
+  wrapTextIntoLines,
+} from "./index";
 
 // Small helpers -------------------------------------------------------------
 
@@ -18,6 +52,19 @@ async function commandsFor(build: (p: Pardal) => void) {
   return captured.getRenderCommands();
 }
 
+/** Lay out a document with the given options and return the Pardal instance (post-layout). */
+async function layout(
+  options: Parameters<typeof Pardal.createDocument>[0],
+  build: (p: Pardal) => void
+) {
+  let captured!: Pardal;
+  await Pardal.createDocument({ logger: new NullLogger(), ...options }, (p) => {
+    build(p);
+    captured = p;
+  });
+  return captured;
+}
+
 const rectCommands = (cmds: ReturnType<Pardal["getRenderCommands"]>) =>
   cmds.filter((c) => c.commandType === RenderCommandType.RECTANGLE);
 
@@ -91,6 +138,18 @@ describe("text measurement", () => {
     const large = measureWords(ctx, "word", 30)[0].width;
     expect(large).toBeGreaterThan(small);
   });
+
+  test("letterSpacing adds the spacing after every character of each token", () => {
+    const plain = measureWords(ctx, "word ok", 10);
+    const tracked = measureWords(ctx, "word ok", 10, 2);
+    const extra = tracked.map((t, i) => t.width - plain[i].width);
+    [8, 2, 4].forEach((spacing, i) => expect(extra[i]).toBeCloseTo(spacing));
+
+    // The extra width is enough to push the last word onto a second line
+    const width = plain.reduce((sum, t) => sum + t.width, 0) + 1;
+    expect(wrapTextIntoLines(ctx, "word ok", plain, width)).toHaveLength(1);
+    expect(wrapTextIntoLines(ctx, "word ok", tracked, width)).toHaveLength(2);
+  });
 });
 
 // Document generation -------------------------------------------------------
@@ -169,3 +228,1750 @@ describe("transparent background (regression)", () => {
     }
   });
 });
+
+// Automatic pagination --------------------------------------------------------
+
+describe("autoPagination", () => {
+  const tallColumn = (p: Pardal) =>
+    p.column(
+      { id: "flow", width: Sizing.grow(), height: Sizing.grow(), padding: 10, childGap: 5 },
+      () => {
+        for (let i = 0; i < 6; i++) {
+          p.rect({ id: `block-${i}`, width: Sizing.grow(), height: Sizing.fixed(40) });
+        }
+      }
+    );
+
+  test("splits an overflowing root column at child boundaries", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 }, autoPagination: true }, (p) =>
+      p.page(() => tallColumn(p))
+    );
+    expect(p.getContext().pages.length).toBe(2);
+
+    const byId = new Map(p.getRenderCommands().map((c) => [c.id, c]));
+    // 10 + 4 * (40 + 5) = 190 leaves no room for the fifth block on the first page.
+    expect(byId.get("block-3")?.pageId).toBe(1);
+    expect(byId.get("block-4")?.pageId).toBe(2);
+    // The continued block restarts at the column's top padding.
+    expect(byId.get("block-4")?.boundingBox.y).toBe(10);
+    // Every physical page gets its own copy of the root background.
+    const roots = p.getRenderCommands().filter((c) => c.id === "flow");
+    expect(roots.map((c) => c.pageId)).toEqual([1, 2]);
+  });
+
+  test("splits reversed columns in their visual order", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 }, autoPagination: true }, (p) =>
+      p.page(() =>
+        p.column(
+          {
+            direction: Direction.COLUMN_REVERSE,
+            width: Sizing.grow(),
+            height: Sizing.grow(),
+            padding: 10,
+            childGap: 5,
+          },
+          () => {
+            for (let i = 0; i < 6; i++) {
+              p.rect({ id: `block-${i}`, width: Sizing.grow(), height: Sizing.fixed(40) });
+            }
+          }
+        )
+      )
+    );
+    expect(p.getContext().pages.length).toBe(2);
+
+    const byId = new Map(p.getRenderCommands().map((c) => [c.id, c]));
+    // block-5 is drawn first, so blocks 5 to 2 fill the first page
+    expect(byId.get("block-5")).toMatchObject({ pageId: 1, boundingBox: { y: 10 } });
+    expect(byId.get("block-2")?.pageId).toBe(1);
+    expect(byId.get("block-1")).toMatchObject({ pageId: 2, boundingBox: { y: 10 } });
+    expect(byId.get("block-0")?.pageId).toBe(2);
+    for (const command of p.getRenderCommands().filter((c) => c.id.startsWith("block-"))) {
+      expect(command.boundingBox.y).toBeGreaterThanOrEqual(0);
+      expect(command.boundingBox.y + command.boundingBox.height).toBeLessThanOrEqual(200);
+    }
+  });
+
+  test("keeps overflowing content on a single page when disabled", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 } }, (p) =>
+      p.page(() => tallColumn(p))
+    );
+    expect(p.getContext().pages.length).toBe(1);
+    expect(p.getRenderCommands().every((c) => c.pageId === 1)).toBe(true);
+  });
+
+  test("breaks long text between wrapped lines", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 }, autoPagination: true }, (p) =>
+      p.page(() =>
+        p.column({ width: Sizing.grow(), height: Sizing.grow(), padding: 10 }, () => {
+          p.text("lorem ipsum dolor sit amet ".repeat(40), { id: "long", width: Sizing.grow() });
+        })
+      )
+    );
+    const lines = p.getRenderCommands().filter((c) => c.id === "long");
+    const pageIds = new Set(lines.map((c) => c.pageId));
+    expect(pageIds.size).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.boundingBox.y + line.boundingBox.height).toBeLessThanOrEqual(190);
+    }
+  });
+
+  test("page() can opt a single page into flowing mode", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 } }, (p) => {
+      p.page({ autoPagination: true }, () => tallColumn(p));
+      p.page(() => p.text("after"));
+    });
+    expect(p.getContext().pages.map((page) => page.id)).toEqual([1, 2, 3]);
+    const after = p.getRenderCommands().find((c) => c.commandType === RenderCommandType.TEXT);
+    expect(after?.pageId).toBe(3);
+  });
+});
+
+// Page headers and footers ----------------------------------------------------
+
+describe("page headers and footers", () => {
+  const textOf = (command: ReturnType<Pardal["getRenderCommands"]>[number]) =>
+    command.renderData.text?.content.map((word) => word.text).join("") ?? "";
+
+  const footer = (p: Pardal) => p.text("Page {pageNumber} of {totalPages}", { id: "footer" });
+
+  test("repeats the footer on every physical page with resolved tokens", async () => {
+    const p = await layout(
+      { dimensions: { width: 300, height: 200 }, autoPagination: true, footer },
+      (p) =>
+        p.page(() =>
+          p.column({ width: Sizing.grow(), height: Sizing.grow(), childGap: 5 }, () => {
+            for (let i = 0; i < 8; i++) {
+              p.rect({ width: Sizing.grow(), height: Sizing.fixed(40) });
+            }
+          })
+        )
+    );
+    const pageCount = p.getContext().pages.length;
+    expect(pageCount).toBeGreaterThan(1);
+
+    const footers = p.getRenderCommands().filter((c) => c.id === "footer");
+    expect(footers.map((c) => c.pageId)).toEqual(
+      Array.from({ length: pageCount }, (_, i) => i + 1)
+    );
+    expect(footers.map(textOf)).toEqual(
+      Array.from({ length: pageCount }, (_, i) => `Page ${i + 1} of ${pageCount}`)
+    );
+    for (const command of footers) {
+      expect(command.boundingBox.y + command.boundingBox.height).toBeCloseTo(200);
+    }
+  });
+
+  test("reserves the header height above the page content", async () => {
+    const p = await layout(
+      {
+        dimensions: { width: 300, height: 200 },
+        header: (p) => p.rect({ id: "header", width: Sizing.grow(), height: Sizing.fixed(20) }),
+      },
+      (p) => p.page(() => p.rect({ id: "body", width: Sizing.grow(), height: Sizing.grow() }))
+    );
+    const byId = new Map(p.getRenderCommands().map((c) => [c.id, c]));
+    expect(byId.get("header")?.boundingBox.y).toBe(0);
+    expect(byId.get("body")?.boundingBox).toMatchObject({ y: 20, height: 180 });
+  });
+
+  test("page() can override or disable the document templates", async () => {
+    const p = await layout({ dimensions: { width: 300, height: 200 }, footer }, (p) => {
+      p.page(() => p.text("first"));
+      p.page({ footer: null }, () => p.text("second"));
+    });
+    const footers = p.getRenderCommands().filter((c) => c.id === "footer");
+    expect(footers.map((c) => c.pageId)).toEqual([1]);
+    expect(textOf(footers[0])).toBe("Page 1 of 2");
+  });
+
+  test("reserves the template height measured with the final page count", async () => {
+    // 10pt per page: the footer only knows its height once pagination is done
+    const growingFooter = (p: Pardal, info: PageInfo) =>
+      p.rect({ id: "footer", width: Sizing.grow(), height: Sizing.fixed(10 * info.totalPages) });
+    const p = await layout(
+      { dimensions: { width: 300, height: 200 }, autoPagination: true, footer: growingFooter },
+      (p) =>
+        p.page(() =>
+          p.column({ width: Sizing.grow(), height: Sizing.grow() }, () => {
+            for (let i = 0; i < 6; i++) {
+              p.rect({ id: `block-${i}`, width: Sizing.grow(), height: Sizing.fixed(47) });
+            }
+          })
+        )
+    );
+    const pageCount = p.getContext().pages.length;
+    expect(pageCount).toBeGreaterThan(1);
+
+    for (let pageId = 1; pageId <= pageCount; pageId++) {
+      const commands = p.getRenderCommands().filter((c) => c.pageId === pageId);
+      const footerTop = commands.find((c) => c.id === "footer")?.boundingBox.y ?? 0;
+      expect(footerTop).toBeCloseTo(200 - pageCount * 10);
+      for (const block of commands.filter((c) => c.id.startsWith("block"))) {
+        expect(block.boundingBox.y + block.boundingBox.height).toBeLessThanOrEqual(footerTop);
+      }
+    }
+  });
+
+  test("paints templates above the content, keeping their own stacking order", async () => {
+    const p = await layout(
+      {
+        dimensions: { width: 300, height: 200 },
+        header: (p) =>
+          p.column({ id: "header", width: Sizing.grow() }, () => {
+            p.rect({
+              id: "header-top",
+              zIndex: 1,
+              width: Sizing.fixed(20),
+              height: Sizing.fixed(20),
+            });
+            p.rect({ id: "header-bottom", width: Sizing.fixed(20), height: Sizing.fixed(20) });
+          }),
+      },
+      (p) =>
+        p.page(() =>
+          p.rect({ id: "body", zIndex: 1000, width: Sizing.grow(), height: Sizing.grow() })
+        )
+    );
+    const order = [...p.getRenderCommands()].sort(compareRenderOrder).map((c) => c.id);
+    expect(order).toEqual(["body", "header", "header-bottom", "header-top"]);
+  });
+});
+
+// Per-page sizes --------------------------------------------------------------
+
+describe("page sizes", () => {
+  test("PageSize.landscape swaps to the wider orientation", () => {
+    expect(PageSize.landscape(PageSize.A4)).toEqual({ width: 842, height: 595 });
+    expect(PageSize.portrait(PageSize.landscape(PageSize.LETTER))).toEqual(PageSize.LETTER);
+  });
+
+  test("lays out each page at its own size", async () => {
+    const p = await layout({ dimensions: PageSize.A4 }, (p) => {
+      p.page(() => p.rect({ id: "cover", width: Sizing.grow(), height: Sizing.grow() }));
+      p.page({ sizes: PageSize.landscape(PageSize.A4) }, () =>
+        p.rect({ id: "wide", width: Sizing.grow(), height: Sizing.grow() })
+      );
+    });
+    const byId = new Map(p.getRenderCommands().map((c) => [c.id, c]));
+    expect(byId.get("cover")?.boundingBox).toMatchObject({ width: 595, height: 842 });
+    expect(byId.get("wide")?.boundingBox).toMatchObject({ width: 842, height: 595 });
+  });
+
+  test("continuation pages keep the size of the page they flow from", async () => {
+    const p = await layout({ dimensions: PageSize.A4, autoPagination: true }, (p) =>
+      p.page({ sizes: { width: 300, height: 200 } }, () =>
+        p.column({ width: Sizing.grow(), height: Sizing.grow(), childGap: 5 }, () => {
+          for (let i = 0; i < 8; i++) {
+            p.rect({ width: Sizing.grow(), height: Sizing.fixed(40) });
+          }
+        })
+      )
+    );
+    const pages = p.getContext().pages;
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages) {
+      expect(page.sizes).toEqual({ width: 300, height: 200 });
+    }
+  });
+});
+
+// Tables ----------------------------------------------------------------------
+
+describe("table", () => {
+  type Item = { name: string; qty: number };
+  const items: Item[] = [
+    { name: "Layout engine license with a description long enough to wrap", qty: 1 },
+    { name: "PDF", qty: 12345 },
+    { name: "Support", qty: 2 },
+  ];
+
+  const tableLayout = (config: Partial<TableConfig<Item>> = {}) =>
+    layout({ dimensions: { width: 400, height: 400 } }, (p) =>
+      p.page(() =>
+        p.column({ width: Sizing.grow(), height: Sizing.grow() }, () =>
+          p.table<Item>({
+            id: "table",
+            columns: [
+              { header: "Item", key: "name" },
+              { header: "Qty", key: "qty", width: Sizing.fit(), align: TextAlignment.RIGHT },
+              { header: "Note", width: Sizing.fixed(60), cell: () => p.rect({ id: "note" }) },
+            ],
+            rows: items,
+            ...config,
+          })
+        )
+      )
+    );
+
+  /** Cells (direct children of each table row), row by row. */
+  const cellsOf = (p: Pardal) =>
+    p
+      .getIdMap()
+      .get("table")
+      ?.children.map((row) => row.children) ?? [];
+
+  test("gives every row the same column widths, including FIT columns", async () => {
+    const rows = cellsOf(await tableLayout());
+    expect(rows.length).toBe(items.length + 1);
+
+    for (let column = 0; column < 3; column++) {
+      const widths = rows.map((cells) => cells[column].dimensions.width);
+      expect(new Set(widths).size).toBe(1);
+    }
+    // The FIT column is as wide as its widest cell, not wider.
+    expect(rows[0][1].dimensions.width).toBeLessThan(100);
+  });
+
+  test("stretches the cells of a row to the tallest one", async () => {
+    const [, wrapped] = cellsOf(await tableLayout());
+    const heights = wrapped.map((cell) => cell.dimensions.height);
+    expect(new Set(heights).size).toBe(1);
+  });
+
+  test("applies header styling, zebra stripes and grid lines", async () => {
+    const p = await tableLayout({
+      headerBackgroundColor: "#dddddd",
+      backgroundColor: "#ffffff",
+      stripeColor: "#f5f5f5",
+      borderWidth: 1,
+      borderColor: "#cccccc",
+    });
+    const rows = cellsOf(p);
+    expect(rows.map((cells) => cells[0].backgroundColor)).toEqual([
+      "#dddddd",
+      "#ffffff",
+      "#f5f5f5",
+      "#ffffff",
+    ]);
+
+    expect(p.getIdMap().get("table")?.backgroundColor).toBe("#cccccc");
+    // Grid lines are the table background showing through 1pt gaps between cells.
+    const boxes = rows[1].map(
+      (cell) => p.getRenderCommands().find((c) => c.id === cell.id)?.boundingBox
+    );
+    expect(boxes[1]?.x).toBeCloseTo((boxes[0]?.x ?? 0) + (boxes[0]?.width ?? 0) + 1);
+  });
+
+  test("can stripe from the first body row and round the outer corners of each row", async () => {
+    const rows = cellsOf(
+      await tableLayout({
+        backgroundColor: "#ffffff",
+        stripeColor: "#f5f5f5",
+        stripeFirstRow: true,
+        rowCornerRadius: 4,
+      })
+    );
+    expect(rows.slice(1).map((cells) => cells[0].backgroundColor)).toEqual([
+      "#f5f5f5",
+      "#ffffff",
+      "#f5f5f5",
+    ]);
+    expect(rows[1].map((cell) => cell.cornerRadius)).toEqual([
+      { topLeft: 4, bottomLeft: 4, topRight: undefined, bottomRight: undefined },
+      { topLeft: undefined, bottomLeft: undefined, topRight: undefined, bottomRight: undefined },
+      { topLeft: undefined, bottomLeft: undefined, topRight: 4, bottomRight: 4 },
+    ]);
+  });
+
+  test("renders header text in bold and can hide the header row", async () => {
+    const withHeader = await tableLayout();
+    const header = withHeader.getRenderCommands().find((c) => c.renderData.text);
+    expect(header?.renderData.text?.content[0]).toMatchObject({
+      text: "Item",
+      style: { fontWeight: "bold" },
+    });
+
+    // Header text is literal: markers in it are not re-parsed as part of the bold markup
+    const starred = await tableLayout({ columns: [{ header: "Qty*", key: "qty" }] });
+    const [word] =
+      starred.getRenderCommands().find((c) => c.renderData.text)?.renderData.text?.content || [];
+    expect(word).toMatchObject({ text: "Qty*", style: { fontWeight: "bold" } });
+
+    const withoutHeader = await tableLayout({ showHeader: false });
+    expect(cellsOf(withoutHeader).length).toBe(items.length);
+  });
+
+  describe("across pages", () => {
+    const longTable = (p: Pardal, rows: number, config: Partial<TableConfig<{ n: string }>> = {}) =>
+      p.column({ width: Sizing.grow(), height: Sizing.grow(), padding: 10, childGap: 10 }, () => {
+        p.rect({ width: Sizing.grow(), height: Sizing.fixed(60) });
+        p.table({
+          id: "long",
+          columns: [{ header: "Entry", key: "n" }],
+          rows: Array.from({ length: rows }, (_, i) => ({ n: `row ${i}` })),
+          ...config,
+        });
+      });
+
+    const texts = (p: Pardal) =>
+      p
+        .getRenderCommands()
+        .filter((c) => c.renderData.text)
+        .map((c) => ({
+          pageId: c.pageId,
+          y: c.boundingBox.y,
+          text: c.renderData.text?.content.map((word) => word.text).join("") ?? "",
+        }));
+
+    test("repeats the header row at the top of every continuation page", async () => {
+      const p = await layout(
+        { dimensions: { width: 300, height: 200 }, autoPagination: true },
+        (p) => p.page(() => longTable(p, 10))
+      );
+      const pageCount = p.getContext().pages.length;
+      expect(pageCount).toBeGreaterThan(1);
+
+      const headers = texts(p).filter((t) => t.text === "Entry");
+      expect(headers.map((h) => h.pageId)).toEqual(
+        Array.from({ length: pageCount }, (_, i) => i + 1)
+      );
+
+      // Body rows follow the header on each page and keep their order.
+      const rows = texts(p).filter((t) => t.text.startsWith("row"));
+      expect(rows.map((r) => r.text)).toEqual(Array.from({ length: 10 }, (_, i) => `row ${i}`));
+      for (const row of rows) {
+        const header = headers.find((h) => h.pageId === row.pageId);
+        expect(row.y).toBeGreaterThan(header?.y ?? Number.POSITIVE_INFINITY);
+      }
+    });
+
+    test("moves a row that does not fit to the next page whole", async () => {
+      const p = await layout(
+        { dimensions: { width: 300, height: 200 }, autoPagination: true },
+        (p) => p.page(() => longTable(p, 10))
+      );
+      const table = p.getIdMap().get("long");
+      // The header row (first child) is repeated on purpose; body rows never split.
+      for (const row of table?.children.slice(1) ?? []) {
+        const pages = new Set(
+          p
+            .getRenderCommands()
+            .filter((c) => row.children.some((cell) => cell.id === c.id))
+            .map((c) => c.pageId)
+        );
+        expect(pages.size).toBe(1);
+      }
+    });
+
+    test("does not repeat the header when repeatHeader is false", async () => {
+      const p = await layout(
+        { dimensions: { width: 300, height: 200 }, autoPagination: true },
+        (p) => p.page(() => longTable(p, 10, { repeatHeader: false }))
+      );
+      expect(p.getContext().pages.length).toBeGreaterThan(1);
+      expect(texts(p).filter((t) => t.text === "Entry").length).toBe(1);
+    });
+  });
+});
+
+// Borders ---------------------------------------------------------------------
+
+describe("borders", () => {
+  test("take space like padding", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.withRect(
+          {
+            id: "box",
+            width: Sizing.fixed(200),
+            height: Sizing.fixed(100),
+            padding: 5,
+            border: { width: 2, color: "#000000" },
+            borderLeft: { width: 10, color: "#ff0000" },
+          },
+          () => p.rect({ id: "content", width: Sizing.grow(), height: Sizing.grow() })
+        )
+      )
+    );
+    const content = cmds.find((c) => c.id === "content");
+    expect(content?.boundingBox).toMatchObject({ x: 15, y: 7, width: 178, height: 86 });
+  });
+
+  test("are carried per side on the rectangle command", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.rect({
+          id: "box",
+          width: Sizing.fixed(50),
+          height: Sizing.fixed(50),
+          borderBottom: { width: 1, color: "#cccccc", style: "dashed" },
+        })
+      )
+    );
+    const borders = cmds.find((c) => c.id === "box")?.renderData.rectangle?.borders;
+    expect(borders?.bottom).toEqual({ width: 1, color: "#cccccc", style: "dashed" });
+    expect(borders?.top).toBeUndefined();
+  });
+
+  test("are drawn around text with an extra rectangle command", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() => p.text("Boxed", { id: "boxed", border: { width: 1, color: "#00aa00" } }))
+    );
+    const boxed = cmds.filter((c) => c.id === "boxed");
+    expect(boxed.map((c) => c.commandType)).toEqual([
+      RenderCommandType.TEXT,
+      RenderCommandType.RECTANGLE,
+    ]);
+    // The text sits inside the 1pt border.
+    expect(boxed[0].boundingBox.x).toBe(1);
+  });
+});
+
+// Corner radii ----------------------------------------------------------------
+
+describe("corner radius", () => {
+  test("accepts a radius per corner on rectangle commands", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.rect({
+          id: "tab",
+          width: Sizing.fixed(80),
+          height: Sizing.fixed(30),
+          cornerRadius: { topLeft: 8, topRight: 8 },
+        })
+      )
+    );
+    expect(cmds.find((c) => c.id === "tab")?.renderData.rectangle?.cornerRadius).toEqual({
+      topLeft: 8,
+      topRight: 8,
+    });
+  });
+
+  test("resolves radii per corner, clamped to half the shorter side", () => {
+    expect(resolveCornerRadii(6, 100, 50)).toEqual({
+      topLeft: 6,
+      topRight: 6,
+      bottomRight: 6,
+      bottomLeft: 6,
+    });
+    expect(resolveCornerRadii({ topLeft: 40, bottomRight: 4 }, 100, 50)).toEqual({
+      topLeft: 25,
+      topRight: 0,
+      bottomRight: 4,
+      bottomLeft: 0,
+    });
+  });
+});
+
+describe("gradients", () => {
+  const sunset = {
+    type: "linear" as const,
+    angle: 90,
+    stops: [
+      { offset: 0, color: "#F97316" },
+      { offset: 1, color: "#DB2777" },
+    ],
+  };
+
+  test("carries gradient fills on rectangle, circle and text commands", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ id: "banner", backgroundColor: sunset, width: Sizing.grow() }, () => {
+          p.circle({
+            id: "dot",
+            width: Sizing.fixed(20),
+            height: Sizing.fixed(20),
+            backgroundColor: sunset,
+          });
+          p.text("Hello", { id: "title", color: sunset });
+        })
+      )
+    );
+    expect(cmds.find((c) => c.id === "banner")?.renderData.rectangle?.backgroundColor).toEqual(
+      sunset
+    );
+    expect(cmds.find((c) => c.id === "dot")?.renderData.circle?.backgroundColor).toEqual(sunset);
+    expect(
+      cmds.find((c) => c.commandType === RenderCommandType.TEXT && c.id === "title")?.renderData
+        .text?.color
+    ).toEqual(sunset);
+  });
+
+  test("renders linear and radial gradients as PDF shadings", async () => {
+    const buf = await Pardal.createDocument(
+      { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+      (p) => {
+        p.page(() => {
+          p.rect({ width: Sizing.grow(), height: Sizing.fixed(50), backgroundColor: sunset });
+          p.rect({
+            width: Sizing.grow(),
+            height: Sizing.fixed(50),
+            backgroundColor: {
+              type: "radial",
+              stops: [
+                { offset: 0, color: "#FFFFFF" },
+                { offset: 1, color: "#1D4ED8", opacity: 0.5 },
+              ],
+            },
+          });
+        });
+      }
+    );
+    const pdf = Buffer.from(buf).toString("latin1");
+    expect(pdf).toContain("/ShadingType 2");
+    expect(pdf).toContain("/ShadingType 3");
+  });
+
+  test("spans the gradient line across the box like CSS", () => {
+    const box = { x: 10, y: 20, width: 100, height: 40 };
+    const expectPoints = (angle: number | undefined, [x1, y1, x2, y2]: number[]) => {
+      const points = linearGradientPoints({ type: "linear", angle, stops: [] }, box);
+      expect(points.x1).toBeCloseTo(x1);
+      expect(points.y1).toBeCloseTo(y1);
+      expect(points.x2).toBeCloseTo(x2);
+      expect(points.y2).toBeCloseTo(y2);
+    };
+    // The default (180deg) runs top to bottom; 45deg runs from the bottom-left corner up.
+    expectPoints(undefined, [60, 20, 60, 60]);
+    expectPoints(45, [25, 75, 95, 5]);
+    expect(radialGradientGeometry({ type: "radial", stops: [] }, box)).toEqual({
+      cx: 60,
+      cy: 40,
+      radius: Math.hypot(50, 20),
+    });
+  });
+});
+
+describe("shadows", () => {
+  test("emits the shadow beneath the element, offset and spread", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.rect({
+          id: "card",
+          width: Sizing.fixed(100),
+          height: Sizing.fixed(50),
+          cornerRadius: 8,
+          shadow: { offsetX: 2, offsetY: 4, spread: 3, blur: 6 },
+        })
+      )
+    );
+    const card = cmds.filter((c) => c.id === "card");
+    expect(card.map((c) => c.commandType)).toEqual([
+      RenderCommandType.SHADOW,
+      RenderCommandType.RECTANGLE,
+    ]);
+    expect(card[0].boundingBox).toEqual({ x: -1, y: 1, width: 106, height: 56 });
+    expect(card[0].renderData.shadow).toEqual({
+      color: "#000000",
+      opacity: 0.25,
+      blur: 6,
+      cornerRadius: { topLeft: 11, topRight: 11, bottomRight: 11, bottomLeft: 11 },
+    });
+  });
+
+  test("renders sharp shadows as vectors and blurred shadows as images", async () => {
+    const render = (blur: number) =>
+      Pardal.createDocument(
+        { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+        (p) => {
+          p.page(() => {
+            p.rect({ width: Sizing.fixed(80), height: Sizing.fixed(40), shadow: { blur } });
+          });
+        }
+      );
+    const images = async (blur: number) =>
+      (
+        Buffer.from(await render(blur))
+          .toString("latin1")
+          .match(/\/Subtype \/Image/g) || []
+      ).length;
+    expect(await images(0)).toBe(0);
+    expect(await images(8)).toBeGreaterThan(0);
+  });
+});
+
+describe("zIndex", () => {
+  const paintOrder = (cmds: ReturnType<Pardal["getRenderCommands"]>) =>
+    [...cmds].sort((a, b) => a.zIndex - b.zIndex).map((c) => c.id);
+
+  test("paints children above their parents and siblings in declaration order", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ id: "parent", backgroundColor: "#EEEEEE" }, () => {
+          p.rect({ id: "first", width: Sizing.fixed(20), height: Sizing.fixed(20) });
+          p.rect({ id: "second", width: Sizing.fixed(20), height: Sizing.fixed(20) });
+        })
+      )
+    );
+    expect(paintOrder(cmds)).toEqual(["parent", "first", "second"]);
+  });
+
+  test("raises an absolute overlay above later siblings", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ id: "card" }, () => {
+          p.rect({
+            id: "badge",
+            absolute: true,
+            x: 10,
+            y: 10,
+            zIndex: 1,
+            width: Sizing.fixed(20),
+            height: Sizing.fixed(20),
+          });
+          p.rect({ id: "body", width: Sizing.fixed(80), height: Sizing.fixed(80) });
+        })
+      )
+    );
+    expect(paintOrder(cmds)).toEqual(["card", "body", "badge"]);
+  });
+
+  test("keeps a subtree inside its parent's stacking context", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ id: "root" }, () => {
+          p.column({ id: "low" }, () => {
+            p.rect({
+              id: "low-child",
+              zIndex: 100,
+              width: Sizing.fixed(10),
+              height: Sizing.fixed(10),
+            });
+          });
+          p.rect({ id: "backdrop", zIndex: -1, width: Sizing.fixed(10), height: Sizing.fixed(10) });
+          p.rect({ id: "high", zIndex: 1, width: Sizing.fixed(10), height: Sizing.fixed(10) });
+        })
+      )
+    );
+    expect(paintOrder(cmds)).toEqual(["backdrop", "root", "low", "low-child", "high"]);
+  });
+});
+
+describe("text alignment", () => {
+  const word = (text: string, width: number) => ({
+    text,
+    width,
+    height: 10,
+    startOffset: 0,
+    length: text.length,
+  });
+  // "ab cd " — the trailing space is ignored when aligning
+  const line = [word("ab", 20), word(" ", 5), word("cd", 20), word(" ", 5)];
+
+  test("aligns the visible words of a line inside its box", () => {
+    expect(alignTextLine(line, 100, TextAlignment.LEFT)).toEqual({ offset: 0, extraSpace: 0 });
+    expect(alignTextLine(line, 100, TextAlignment.CENTER)).toEqual({ offset: 27.5, extraSpace: 0 });
+    expect(alignTextLine(line, 100, TextAlignment.RIGHT)).toEqual({ offset: 55, extraSpace: 0 });
+    expect(alignTextLine(line, 100, TextAlignment.JUSTIFY)).toEqual({ offset: 0, extraSpace: 55 });
+  });
+
+  test("justifies every line but the last of each paragraph", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.text("one two three four five six seven eight nine ten\nlast", {
+          id: "body",
+          width: Sizing.fixed(120),
+          textAlignment: TextAlignment.JUSTIFY,
+        })
+      )
+    );
+    const lines = cmds.filter((c) => c.id === "body" && c.commandType === RenderCommandType.TEXT);
+    expect(lines.length).toBeGreaterThan(2);
+    const alignments = lines.map((c) => c.renderData.text?.textAlignment);
+    expect(alignments.slice(0, -2).every((a) => a === TextAlignment.JUSTIFY)).toBe(true);
+    expect(alignments.slice(-2)).toEqual([TextAlignment.LEFT, TextAlignment.LEFT]);
+    expect(lines[0].boundingBox.width).toBe(120);
+  });
+});
+
+describe("text lines", () => {
+  test("carries the engine's line breaks with word positions and baselines", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.text("alpha beta gamma delta epsilon zeta eta theta", {
+          id: "para",
+          width: Sizing.fixed(120),
+          fontSize: 12,
+          textAlignment: TextAlignment.RIGHT,
+        })
+      )
+    );
+    const lines = cmds.filter((c) => c.id === "para" && c.commandType === RenderCommandType.TEXT);
+    expect(lines.length).toBeGreaterThan(1);
+
+    for (const command of lines) {
+      const text = command.renderData.text;
+      expect(text?.lines).toHaveLength(1);
+      const line = text?.lines[0];
+      if (!line) throw new Error("missing line");
+      expect(line.content).toEqual(text?.content ?? []);
+
+      // Words are laid out back to back, and the last visible word ends at the right edge
+      for (let i = 1; i < line.content.length; i++) {
+        expect(line.x[i]).toBeCloseTo(line.x[i - 1] + line.content[i - 1].width);
+      }
+      const lastVisible = line.content.map((word) => word.text.trim() !== "").lastIndexOf(true);
+      expect(
+        command.boundingBox.x + line.x[lastVisible] + line.content[lastVisible].width
+      ).toBeCloseTo(120);
+      expect(line.baseline).toBeGreaterThan(line.top);
+      expect(line.baseline).toBeLessThan(line.top + 12);
+    }
+  });
+
+  test("places the baseline from the ascender of the regular font", async () => {
+    const baselineWith = async (regular: string) => {
+      const p = await layout(
+        { dimensions: { width: 400, height: 300 }, fonts: { ...DEFAULT_FONTS, regular } },
+        (p) => p.page(() => p.text("Baseline", { id: "line", fontSize: 12 }))
+      );
+      const line = p.getRenderCommands().find((c) => c.id === "line")?.renderData.text?.lines[0];
+      return (line?.baseline ?? 0) - (line?.top ?? 0);
+    };
+    // AFM ascenders: Helvetica 718, Courier 629 (thousandths of the font size)
+    expect(await baselineWith("Helvetica")).toBeCloseTo(0.718 * 12 - 2);
+    expect(await baselineWith("Courier")).toBeCloseTo(0.629 * 12 - 2);
+  });
+});
+
+describe("rich text", () => {
+  const textLines = (cmds: ReturnType<Pardal["getRenderCommands"]>, id: string) =>
+    cmds
+      .filter((c) => c.id === id && c.commandType === RenderCommandType.TEXT)
+      .map((c) => ({
+        y: c.boundingBox.y,
+        words: c.renderData.text?.content.map((word) => word.text).join("") || "",
+        content: c.renderData.text?.content || [],
+      }));
+
+  test("wraps spans together and keeps each span's style on its words", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.richText(
+          [
+            { text: "plain " },
+            { text: "red bold", color: "#FF0000", bold: true },
+            { text: " and a ", fontSize: 12 },
+            { text: "link", link: "https://example.com", underline: true },
+          ],
+          { id: "rich", fontSize: 12, width: Sizing.fixed(300) }
+        )
+      )
+    );
+    const [line] = textLines(cmds, "rich");
+    expect(line.words).toBe("plain red bold and a link");
+    expect(line.content.find((word) => word.text === "red")?.style?.color).toBe("#FF0000");
+    expect(line.content.find((word) => word.text === "bold")?.bold).toBe(true);
+    expect(line.content.find((word) => word.text === "link")?.style?.link).toBe(
+      "https://example.com"
+    );
+  });
+
+  test("moves glued spans to the next line as one word", async () => {
+    // Courier is monospaced (0.6em): "aaaa H" fits in 38pt, "aaaa H2O" does not
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.richText(
+          [
+            { text: "aaaa ", fontFamily: "Courier" },
+            { text: "H", fontFamily: "Courier" },
+            { text: "2", fontFamily: "Courier", subscript: true },
+            { text: "O", fontFamily: "Courier" },
+          ],
+          { id: "formula", fontSize: 10, width: Sizing.fixed(38) }
+        )
+      )
+    );
+    expect(textLines(cmds, "formula").map((line) => line.words.trim())).toEqual(["aaaa", "H2O"]);
+  });
+
+  test("does not carry words separated by a space to the next line", async () => {
+    // Courier 10pt is 6pt per character: "aaaa bbbb " fits in 60pt, "cccc" does not
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.richText([{ text: "aaaa bbbb cccc", fontFamily: "Courier" }], {
+          id: "spaced",
+          fontSize: 10,
+          width: Sizing.fixed(60),
+        })
+      )
+    );
+    expect(textLines(cmds, "spaced").map((line) => line.words.trim())).toEqual([
+      "aaaa bbbb",
+      "cccc",
+    ]);
+  });
+
+  test("a larger span pushes the following line down", async () => {
+    const build = (fontSize: number) => (p: Pardal) =>
+      p.page(() =>
+        p.richText([{ text: "Big", fontSize }, { text: " alpha beta gamma delta epsilon" }], {
+          id: "mixed",
+          fontSize: 12,
+          width: Sizing.fixed(120),
+        })
+      );
+    const uniform = textLines(await commandsFor(build(12)), "mixed");
+    const mixed = textLines(await commandsFor(build(24)), "mixed");
+    expect(mixed.length).toBeGreaterThan(1);
+    expect(mixed[1].y - mixed[0].y).toBeGreaterThan(uniform[1].y - uniform[0].y);
+  });
+
+  test("renders span links as PDF link annotations", async () => {
+    const buf = await Pardal.createDocument(
+      { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+      (p) => {
+        p.page(() =>
+          p.richText([
+            { text: "see " },
+            { text: "docs", link: "https://example.com/docs", strikethrough: true },
+          ])
+        );
+      }
+    );
+    expect(Buffer.from(buf).toString("latin1")).toContain("/URI (https://example.com/docs)");
+  });
+});
+
+describe("inline markdown", () => {
+  const words = (text: string) => parseText(text).filter((word) => word.text?.trim());
+
+  test("keeps unmatched and escaped asterisks as literal text", () => {
+    expect(words("Book a 5* hotel, rated 4.5*").map((word) => word.text)).toEqual([
+      "Book",
+      "a",
+      "5*",
+      "hotel,",
+      "rated",
+      "4.5*",
+    ]);
+    expect(words("\\*not italic\\*").map((word) => [word.text, word.italic])).toEqual([
+      ["*not", false],
+      ["italic*", false],
+    ]);
+    expect(words("2 * 3 * 4").map((word) => word.text)).toEqual(["2", "*", "3", "*", "4"]);
+  });
+
+  test("parses code, strikethrough, underline and links", () => {
+    const [code, strike, underline, link] = words("`a*b` ~~old~~ __new__ [docs](https://x.io)");
+    expect(code).toMatchObject({ text: "a*b", code: true });
+    expect(strike).toMatchObject({ text: "old", style: { strikethrough: true } });
+    expect(underline).toMatchObject({ text: "new", style: { underline: true } });
+    expect(link).toMatchObject({ text: "docs", style: { link: "https://x.io" } });
+    expect(words("snake_case_name").map((word) => word.text)).toEqual(["snake_case_name"]);
+  });
+
+  test("keeps underscore and tilde runs with nothing between markers as text", () => {
+    expect(parseText("Signature: ________").map((word) => word.text)).toEqual([
+      "Signature:",
+      " ",
+      "________",
+    ]);
+    expect(words("a ~~~~ b").map((word) => word.text)).toEqual(["a", "~~~~", "b"]);
+    expect(words("x ____ y").every((word) => !word.style)).toBe(true);
+    expect(words("__~~__").map((word) => [word.text, word.style])).toEqual([["__~~__", undefined]]);
+  });
+
+  test("allows balanced parentheses in link destinations", () => {
+    const [link, now] = words("[docs](http://a.b/c_(d)) now");
+    expect(link).toMatchObject({ text: "docs", style: { link: "http://a.b/c_(d)" } });
+    expect(now).toMatchObject({ text: "now" });
+    expect(now.style).toBeUndefined();
+  });
+
+  test("renders inline code in the monospace font", async () => {
+    const buf = await Pardal.createDocument(
+      { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+      (p) => {
+        p.page(() => p.text("run `bun test` and see [docs](https://example.com/docs)"));
+      }
+    );
+    const pdf = Buffer.from(buf).toString("latin1");
+    expect(pdf).toContain("/BaseFont /Courier");
+    expect(pdf).toContain("/URI (https://example.com/docs)");
+  });
+});
+
+describe("markdown", () => {
+  const source = [
+    "# Terms",
+    "",
+    "Intro with **bold** text.",
+    "",
+    "- first",
+    "- second",
+    "  - nested",
+    "",
+    "3. three",
+    "4. four",
+    "",
+    "> quoted",
+    "",
+    "```",
+    "a * b",
+    "  indented",
+    "```",
+    "",
+    "---",
+    "",
+    "| Item | Qty |",
+    "| ---- | --: |",
+    "| Pen  | 2   |",
+  ].join("\n");
+
+  const texts = (cmds: ReturnType<Pardal["getRenderCommands"]>) =>
+    cmds
+      .filter((c) => c.commandType === RenderCommandType.TEXT)
+      .map((c) => ({
+        text: c.renderData.text?.content.map((word) => word.text).join("") || "",
+        fontSize: c.renderData.text?.fontSize,
+        x: c.boundingBox.x,
+      }));
+
+  test("turns blocks into text elements in document order", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() => p.markdown(source, { fontSize: 10, headingSizes: [20] }))
+    );
+    const lines = texts(cmds);
+    expect(lines.map((line) => line.text)).toEqual([
+      "Terms",
+      "Intro with bold text.",
+      "•",
+      "first",
+      "•",
+      "second",
+      "•",
+      "nested",
+      "3.",
+      "three",
+      "4.",
+      "four",
+      "quoted",
+      "a * b",
+      "indented",
+      "Item",
+      "Qty",
+      "Pen",
+      "2",
+    ]);
+    expect(lines[0].fontSize).toBe(20);
+    expect(lines[1].fontSize).toBe(10);
+
+    // Nested items and indented code lines are shifted right
+    const x = (text: string) => lines.find((line) => line.text === text)?.x || 0;
+    expect(x("nested")).toBeGreaterThan(x("second"));
+    expect(x("indented")).toBeGreaterThan(x("a * b"));
+  });
+
+  test("makes headings bold with the theme font weight and keeps their text literal", async () => {
+    const cmds = await commandsFor((p) => p.page(() => p.markdown("# Rated 5*")));
+    const words = cmds.find((c) => c.renderData.text)?.renderData.text?.content || [];
+    expect(words.map((word) => word.text).join("")).toBe("Rated 5*");
+    expect(words.every((word) => word.style?.fontWeight === "bold")).toBe(true);
+  });
+
+  test("draws rules, quote bars and code backgrounds with the theme colors", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.markdown(source, {
+          ruleColor: "#FF0000",
+          quoteBorderColor: "#00FF00",
+          codeBackgroundColor: "#0000FF",
+        })
+      )
+    );
+    const fills = cmds
+      .filter((c) => c.commandType === RenderCommandType.RECTANGLE)
+      .map((c) => c.renderData.rectangle?.backgroundColor);
+    expect(fills).toContain("#FF0000");
+    expect(fills).toContain("#0000FF");
+    const quote = cmds.find((c) => c.renderData.rectangle?.borders?.left?.color === "#00FF00");
+    expect(quote).toBeDefined();
+  });
+});
+
+describe("registered fonts", () => {
+  test("selects the closest registered face for the word's weight and style", () => {
+    const p = new Pardal();
+    const buffer = new Uint8Array(0);
+    p.registerFont("Brand", { buffer });
+    p.registerFont("Brand", { weight: "bold", buffer });
+    p.registerFont("Brand", { style: "italic", buffer });
+    p.registerFont("Brand", { weight: 400, buffer }); // replaces the first face
+    const registered = p.getContext().registeredFonts;
+    expect(registered).toHaveLength(3);
+
+    const font = (word: Parameters<typeof getFontForWord>[0]) =>
+      getFontForWord({ text: "a", ...word }, DEFAULT_FONTS, registered);
+    expect(font({ style: { fontFamily: "Brand" } })).toBe("Brand-400");
+    expect(font({ bold: true, style: { fontFamily: "brand" } })).toBe("Brand-700");
+    expect(font({ style: { fontFamily: "Brand", fontWeight: "semibold" } })).toBe("Brand-700");
+    expect(font({ style: { fontFamily: "Brand", fontStyle: "italic" } })).toBe("Brand-400-italic");
+    // Style wins over weight when there is no bold italic face
+    expect(font({ bold: true, italic: true, style: { fontFamily: "Brand" } })).toBe(
+      "Brand-400-italic"
+    );
+    // Standard PDF fonts are used directly; unknown families fall back to the font routes
+    expect(font({ style: { fontFamily: "Courier" } })).toBe("Courier");
+    expect(font({ style: { fontFamily: "Missing" } })).toBe("Helvetica");
+  });
+
+  test("measures words with the element's font family", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() => p.text("abc **de**", { id: "mono", fontFamily: "Courier", fontSize: 10 }))
+    );
+    const words = cmds.find((c) => c.id === "mono")?.renderData.text?.content || [];
+    expect(words.map((word) => word.style?.fontFamily)).toEqual(["Courier", "Courier", "Courier"]);
+    // Courier advances 0.6em per character
+    expect(words[0].width).toBeCloseTo(18);
+    expect(words[2]).toMatchObject({ text: "de", bold: true });
+  });
+
+  test("measures text with a registered TTF file and embeds it in the PDF", async () => {
+    // Lato Regular, under the SIL Open Font License (fixtures/Lato-OFL.txt)
+    const buffer = readFileSync(new URL("../fixtures/Lato-Regular.ttf", import.meta.url));
+    let captured!: Pardal;
+    const pdf = await Pardal.createDocument(
+      { dimensions: { width: 400, height: 300 }, logger: new NullLogger() },
+      (p) => {
+        p.registerFont("Lato", { buffer });
+        p.page(() =>
+          p.column({}, () => {
+            p.text("Hamburgefonstiv", { id: "lato", fontFamily: "Lato", fontSize: 12 });
+            p.text("Hamburgefonstiv", { id: "helvetica", fontSize: 12 });
+          })
+        );
+        captured = p;
+      }
+    );
+
+    const registered = captured.getContext().registeredFonts;
+    const font = registered[0].font;
+    if (!font) throw new Error("the font file was not parsed");
+    const width = (id: string) =>
+      captured.getRenderCommands().find((c) => c.id === id)?.renderData.text?.content[0].width;
+    const advance = font.layout("Hamburgefonstiv").advanceWidth / font.unitsPerEm;
+    expect(width("lato")).toBeCloseTo(advance * 12);
+    expect(width("lato")).not.toBeCloseTo(width("helvetica") ?? 0);
+
+    const source = Buffer.from(pdf).toString("latin1");
+    expect(source).toMatch(/\/BaseFont \/[A-Z]{6}\+Lato-Regular/);
+    expect(source).toContain("/FontFile2");
+
+    // Glyph coverage comes from the parsed file
+    expect(fontHasGlyphs("Lato-400", "Łódź", registered)).toBe(true);
+    expect(fontHasGlyphs("Lato-400", "漢字", registered)).toBe(false);
+  });
+});
+
+describe("font fallback", () => {
+  test("standard fonts only cover the WinAnsi characters", () => {
+    expect(fontHasGlyphs("Helvetica", "Café 10€", [])).toBe(true);
+    expect(fontHasGlyphs("Helvetica", "Łódź", [])).toBe(false);
+    expect(fontHasGlyphs("Helvetica", "漢字", [])).toBe(false);
+  });
+
+  test("splits text into runs using the first font in the chain with each glyph", () => {
+    // Minimal stand-ins for parsed font files: each font covers a fixed set of characters
+    const coverage: Record<string, string> = { Latin: "abc ", Greek: "αβγ", Math: "∑αβγ" };
+    const registered = Object.entries(coverage).map(([name, characters]) => ({
+      family: name,
+      weight: 400,
+      style: "normal" as const,
+      name,
+      buffer: new Uint8Array(),
+      font: {
+        hasGlyphForCodePoint: (code: number) => characters.includes(String.fromCodePoint(code)),
+      } as RegisteredFont["font"],
+    }));
+    const runs = splitByFontCoverage("abαβ∑c漢", ["Latin", "Greek", "Math"], registered);
+    expect(runs).toEqual([
+      { text: "ab", font: "Latin" },
+      { text: "αβ", font: "Greek" },
+      { text: "∑", font: "Math" },
+      // Characters no font covers stay with the primary font
+      { text: "c漢", font: "Latin" },
+    ]);
+  });
+});
+
+describe("font weight and style", () => {
+  test("routes element weights and styles to the font options", () => {
+    const fonts = { thin: "Light", regular: "Regular", bold: "Bold", regularItalic: "Italic" };
+    const font = (style: Parameters<typeof getFontForWord>[0]["style"]) =>
+      getFontForWord({ text: "a", style }, fonts);
+    expect(font({ fontWeight: "bold" })).toBe("Bold");
+    expect(font({ fontWeight: 600 })).toBe("Bold");
+    expect(font({ fontWeight: "thin" })).toBe("Light");
+    expect(font({ fontWeight: 300 })).toBe("Light");
+    expect(font({ fontWeight: "medium" })).toBe("Regular");
+    expect(font({ fontStyle: "italic" })).toBe("Italic");
+    // Missing routes fall back to the closest one available
+    expect(font({ fontWeight: "thin", fontStyle: "italic" })).toBe("Italic");
+    expect(font({ fontWeight: "bold", fontStyle: "italic" })).toBe("Bold");
+    // Standard families switch to their bold and oblique variants
+    const standard = (style: Parameters<typeof getFontForWord>[0]["style"]) =>
+      getFontForWord({ text: "a", style }, DEFAULT_FONTS);
+    expect(standard({ fontFamily: "Courier", fontWeight: "bold" })).toBe("Courier-Bold");
+    expect(standard({ fontFamily: "Times-Roman", fontStyle: "italic" })).toBe("Times-Italic");
+    expect(standard({ fontFamily: "Helvetica", fontWeight: 800, fontStyle: "italic" })).toBe(
+      "Helvetica-BoldOblique"
+    );
+    expect(standard({ fontWeight: "light" })).toBe("Helvetica");
+  });
+
+  test("measures and renders a bold element without markdown markers", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() => {
+        p.text("Heading", { id: "plain", fontSize: 12 });
+        p.text("Heading", { id: "weight", fontSize: 12, fontWeight: "bold" });
+        p.text("**Heading**", { id: "markers", fontSize: 12 });
+      })
+    );
+    const width = (id: string) =>
+      cmds.find((c) => c.id === id)?.renderData.text?.content[0].width || 0;
+    expect(width("weight")).toBeGreaterThan(width("plain"));
+    expect(width("weight")).toBeCloseTo(width("markers"));
+
+    const buf = await Pardal.createDocument(
+      { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+      (p) => p.page(() => p.text("Heading", { fontFamily: "Times-Roman", fontStyle: "italic" }))
+    );
+    expect(Buffer.from(buf).toString("latin1")).toContain("/BaseFont /Times-Italic");
+  });
+
+  test("sizes fit text to the width of its bold words", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.row({}, () =>
+          p.text("Heading Heading Heading", {
+            id: "heading",
+            fontSize: 12,
+            fontWeight: "bold",
+            width: Sizing.fit(),
+          })
+        )
+      )
+    );
+    const lines = cmds.filter(
+      (c) => c.id === "heading" && c.commandType === RenderCommandType.TEXT
+    );
+    expect(lines).toHaveLength(1);
+    expect(lines[0].renderData.text?.content.map((word) => word.text).join("")).toBe(
+      "Heading Heading Heading"
+    );
+  });
+});
+
+describe("letter spacing and line height", () => {
+  test("wraps tracked text and spaces its lines by lineHeight", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.fixed(60) }, () =>
+          p.text("AB CD EF", {
+            id: "tracked",
+            width: Sizing.grow(),
+            fontSize: 10,
+            letterSpacing: 4,
+            lineHeight: 30,
+          })
+        )
+      )
+    );
+    const lines = cmds.filter((c) => c.id === "tracked" && c.renderData.text);
+    expect(lines.map((c) => c.renderData.text?.content.map((word) => word.text))).toEqual([
+      ["AB", " ", "CD"],
+      ["EF"],
+    ]);
+    expect(lines[1].boundingBox.y - lines[0].boundingBox.y).toBeCloseTo(30);
+  });
+
+  test("draws glyphs with PDF character spacing", async () => {
+    const buf = await Pardal.createDocument(
+      { dimensions: { width: 200, height: 200 }, logger: new NullLogger() },
+      (p) => p.page(() => p.text("Brand", { letterSpacing: 1.5 }))
+    );
+    const pdf = Buffer.from(buf).toString("latin1");
+    const streams = [...pdf.matchAll(/stream\r?\n([\s\S]*?)endstream/g)].map((match) => {
+      try {
+        return inflateSync(Buffer.from(match[1], "latin1")).toString("latin1");
+      } catch {
+        return "";
+      }
+    });
+    expect(streams.join("\n")).toContain("1.5 Tc");
+  });
+});
+
+describe("text overflow", () => {
+  const name = "Stainless steel water bottle with bamboo lid, 750 ml";
+  const linesOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds
+      .filter((c) => c.id === id && c.renderData.text)
+      .map((c) => c.renderData.text?.content.map((word) => word.text).join("") || "");
+
+  test("limits text to maxLines, marking the cut with an ellipsis", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.fixed(120) }, () => {
+          const config = { width: Sizing.grow(), fontSize: 12, maxLines: 2 };
+          p.text(name, { ...config, id: "ellipsis", overflow: "ellipsis" });
+          p.text(name, { ...config, id: "cut" });
+        })
+      )
+    );
+    const ellipsis = linesOf(cmds, "ellipsis");
+    expect(ellipsis).toHaveLength(2);
+    expect(ellipsis[1].endsWith("…")).toBe(true);
+    for (const command of cmds.filter((c) => c.id === "ellipsis" && c.renderData.text)) {
+      const words = command.renderData.text?.content || [];
+      expect(words.reduce((sum, word) => sum + word.width, 0)).toBeLessThanOrEqual(120);
+    }
+    // Without an overflow mode the extra lines are dropped as they are
+    const cut = linesOf(cmds, "cut");
+    expect(cut.map((line) => line.trim())).toEqual([ellipsis[0].trim(), "bottle with bamboo lid,"]);
+  });
+
+  test("clips to the lines that fit a fixed height and shortens long words", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.fixed(120) }, () => {
+          p.text(name, {
+            id: "clip",
+            width: Sizing.grow(),
+            height: Sizing.fixed(30),
+            fontSize: 12,
+            overflow: "clip",
+          });
+          p.text("Supercalifragilisticexpialidocious", {
+            id: "word",
+            width: Sizing.grow(),
+            fontSize: 12,
+            overflow: "ellipsis",
+            // Without this the word would break across lines instead of overflowing
+            overflowWrap: "normal",
+          });
+        })
+      )
+    );
+    // Two 12pt lines fit in 30pt (the second starts at 14.4), a third would not
+    const clip = linesOf(cmds, "clip");
+    expect(clip).toHaveLength(2);
+    expect(clip.some((line) => line.includes("…"))).toBe(false);
+
+    const [word] = linesOf(cmds, "word");
+    expect(word.startsWith("Supercali")).toBe(true);
+    expect(word.endsWith("…")).toBe(true);
+  });
+});
+
+describe("bidirectional text", () => {
+  const visual = (text: string, baseLevel: number) => {
+    const words = text.split(/(\s+)/);
+    const levels = resolveBidiLevels(words.map(bidiClassOf), baseLevel);
+    return reorderVisually(words, levels).join("");
+  };
+
+  test("reorders mixed-direction words with the paragraph's base direction", () => {
+    // RTL paragraph: the LTR run and the number keep their own order inside it
+    expect(visual("שלום עולם 123 ABC def סוף", 1)).toBe("סוף ABC def 123 עולם שלום");
+    // LTR paragraph: a number following Hebrew words stays with them
+    expect(visual("Total: שלום עולם 2024 now", 0)).toBe("Total: 2024 עולם שלום now");
+
+    expect(resolveBaseLevel("שלום abc", "auto")).toBe(1);
+    expect(resolveBaseLevel("123 abc שלום", "auto")).toBe(0);
+    expect(resolveBaseLevel("abc", "rtl")).toBe(1);
+    expect(resolveBaseLevel("שלום", undefined)).toBe(0);
+  });
+
+  test("lays out RTL paragraphs right-aligned in visual order", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.fixed(200) }, () => {
+          p.text("חשבונית מספר 42 for ACME Ltd", {
+            id: "rtl",
+            width: Sizing.grow(),
+            fontSize: 12,
+            textDirection: "rtl",
+          });
+          p.text("שלום world", { id: "auto", width: Sizing.grow(), textDirection: "auto" });
+          p.text("hello שלום", { id: "ltr", width: Sizing.grow() });
+        })
+      )
+    );
+    const text = (id: string) => cmds.find((c) => c.id === id)?.renderData.text;
+    const words = (id: string) =>
+      text(id)
+        ?.lines[0].content.map((word) => word.text)
+        .join("");
+
+    expect(words("rtl")).toBe("for ACME Ltd 42 מספר חשבונית");
+    expect(text("rtl")?.textAlignment).toBe(TextAlignment.RIGHT);
+    expect(text("auto")?.textAlignment).toBe(TextAlignment.RIGHT);
+    expect(words("auto")).toBe("world שלום");
+    expect(text("ltr")?.textAlignment).toBe(TextAlignment.LEFT);
+    expect(words("ltr")).toBe("hello שלום");
+  });
+});
+
+describe("line breaking", () => {
+  const linesOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds
+      .filter((c) => c.id === id && c.renderData.text)
+      .map((c) => c.renderData.text?.content.map((word) => word.text).join("") || "");
+  const widthsOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds
+      .filter((c) => c.id === id && c.renderData.text)
+      .map((c) => (c.renderData.text?.content || []).reduce((sum, word) => sum + word.width, 0));
+
+  test("finds break opportunities inside words and hyphenates with TeX patterns", () => {
+    const texts = (text: string) => splitAtBreakOpportunities(text).map((piece) => piece.text);
+
+    expect(texts("well-known")).toEqual(["well-", "known"]);
+    expect(texts("https://example.com/docs/api")).toEqual(["https://example.com/", "docs/", "api"]);
+    // No line starts with closing punctuation or ends with opening punctuation
+    expect(texts("東京。「本」")).toEqual(["東", "京。", "「本」"]);
+    // Soft hyphens are removed and become hyphenation points
+    expect(splitAtBreakOpportunities("co\u00adop")).toEqual([
+      { text: "co", breakBefore: undefined },
+      { text: "op", breakBefore: "hyphen" },
+    ]);
+    expect(texts("co\u00adop").join("")).toBe("coop");
+    expect(splitAtBreakOpportunities("co\u00adop", "none")).toEqual([{ text: "coop" }]);
+
+    const hyphenation = compileHyphenation({
+      patterns: "hy3ph he2n hena4 hen5at 1na n2at 1tio 2io o2n",
+      exceptions: "ta-ble",
+    });
+    expect(hyphenateWord("Hyphenation", hyphenation)).toEqual(["Hy", "phen", "ation"]);
+    expect(hyphenateWord("table", hyphenation)).toEqual(["ta", "ble"]);
+    expect(splitAtBreakOpportunities("hyphenation,", "auto", hyphenation)).toEqual([
+      { text: "hy", breakBefore: undefined },
+      { text: "phen", breakBefore: "hyphen" },
+      { text: "ation,", breakBefore: "hyphen" },
+    ]);
+  });
+
+  test("wraps URLs and CJK text without spaces inside the container", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.fixed(120) }, () => {
+          p.text("See https://example.com/documentation/reference/api now", {
+            id: "url",
+            width: Sizing.grow(),
+            fontSize: 12,
+          });
+          p.text("Donaudampfschifffahrtsgesellschaft", {
+            id: "forced",
+            width: Sizing.grow(),
+            fontSize: 12,
+          });
+        })
+      )
+    );
+
+    expect(linesOf(cmds, "url")).toEqual([
+      "See",
+      "https://example.com/",
+      "documentation/",
+      "reference/api now",
+    ]);
+    // A word wider than the line breaks between letters as a last resort
+    const forced = linesOf(cmds, "forced");
+    expect(forced.length).toBeGreaterThan(1);
+    expect(forced.join("")).toBe("Donaudampfschifffahrtsgesellschaft");
+    for (const width of [...widthsOf(cmds, "url"), ...widthsOf(cmds, "forced")]) {
+      expect(width).toBeLessThanOrEqual(120);
+    }
+
+    // The standard fonts have no CJK glyphs: give each character a full em instead
+    const context = new Pardal().getContext();
+    const cjk = "日本語のテキスト。";
+    const words = splitAtBreakOpportunities(cjk).map((piece, index) => ({
+      ...piece,
+      startOffset: index,
+      length: piece.text.length,
+      width: piece.text.length * 12,
+      height: 12,
+    }));
+    const lines = wrapTextIntoLines(context, cjk, words, 40, 12);
+    expect(lines.map((line) => line.content.map((word) => word.text).join(""))).toEqual([
+      "日本語",
+      "のテキ",
+      "スト。",
+    ]);
+  });
+
+  test("hyphenates with the patterns registered for the text's language", async () => {
+    const text = "Hyphenation hyphenation hyphenation";
+    const cmds = await commandsFor((p) => {
+      p.registerHyphenation("en", { patterns: "hy3ph he2n hena4 hen5at 1na n2at 1tio 2io o2n" });
+      p.page(() =>
+        p.column({ width: Sizing.fixed(110) }, () => {
+          p.text(text, { id: "auto", width: Sizing.grow(), fontSize: 12, hyphens: "auto" });
+          p.text(text, { id: "manual", width: Sizing.grow(), fontSize: 12 });
+          p.text(text, {
+            id: "other",
+            width: Sizing.grow(),
+            fontSize: 12,
+            hyphens: "auto",
+            lang: "de",
+          });
+        })
+      );
+    });
+
+    const auto = linesOf(cmds, "auto");
+    expect(auto).toEqual(["Hyphenation hy-", "phenation hyphen-", "ation"]);
+    expect(auto.join("").replace(/-/g, "")).toBe(text);
+    for (const width of widthsOf(cmds, "auto")) {
+      expect(width).toBeLessThanOrEqual(110);
+    }
+    // Without "auto", or without patterns for the language, words are not hyphenated
+    expect(linesOf(cmds, "manual").some((line) => line.endsWith("-"))).toBe(false);
+    expect(linesOf(cmds, "other")).toEqual(linesOf(cmds, "manual"));
+  });
+});
+
+describe("reverse directions and wrap", () => {
+  const boxOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds.find((c) => c.id === id)?.boundingBox;
+  const item = (p: Pardal, id: string, width = 50) =>
+    p.rect({ id, width: Sizing.fixed(width), height: Sizing.fixed(20), backgroundColor: "#ccc" });
+
+  test("lays out reversed rows and columns from the last child to the first", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({}, () => {
+          p.row({ id: "row", direction: Direction.ROW_REVERSE, childGap: 10 }, () => {
+            item(p, "r1");
+            item(p, "r2");
+            item(p, "r3");
+          });
+          p.column({ id: "column", direction: Direction.COLUMN_REVERSE, childGap: 5 }, () => {
+            item(p, "c1");
+            item(p, "c2");
+          });
+        })
+      )
+    );
+
+    const row = boxOf(cmds, "row");
+    expect(row?.width).toBe(170);
+    expect(boxOf(cmds, "r3")?.x).toBe(row?.x);
+    expect(boxOf(cmds, "r2")?.x).toBe((row?.x || 0) + 60);
+    expect(boxOf(cmds, "r1")?.x).toBe((row?.x || 0) + 120);
+
+    const column = boxOf(cmds, "column");
+    expect(boxOf(cmds, "c2")?.y).toBe(column?.y);
+    expect(boxOf(cmds, "c1")?.y).toBe((column?.y || 0) + 25);
+  });
+
+  test("wraps children onto new lines with childGap and lineGap", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({}, () => {
+          p.row(
+            {
+              id: "tags",
+              width: Sizing.fixed(200),
+              wrap: true,
+              childGap: 10,
+              lineGap: 5,
+              childAlignment: { x: LayoutAlignmentX.CENTER, y: LayoutAlignmentY.TOP },
+            },
+            () => {
+              for (let i = 1; i <= 5; i++) item(p, `t${i}`, 60);
+            }
+          );
+          p.row({ id: "grow", width: Sizing.fixed(200), wrap: true, childGap: 10 }, () => {
+            item(p, "g1", 120);
+            item(p, "g2", 120);
+            p.rect({ id: "g3", width: Sizing.grow(), height: Sizing.fixed(20) });
+          });
+        })
+      )
+    );
+
+    const tags = boxOf(cmds, "tags");
+    const x = tags?.x || 0;
+    const y = tags?.y || 0;
+    // Three 60pt children and two gaps fill the 200pt line exactly
+    expect([1, 2, 3].map((i) => boxOf(cmds, `t${i}`)?.y)).toEqual([y, y, y]);
+    expect(boxOf(cmds, "t3")?.x).toBe(x + 140);
+    // The second line is centered on its own: 130pt used, 35pt on each side
+    expect(boxOf(cmds, "t4")).toMatchObject({ x: x + 35, y: y + 25 });
+    expect(boxOf(cmds, "t5")).toMatchObject({ x: x + 105, y: y + 25 });
+    // The FIT height covers both lines and the gap between them
+    expect(tags?.height).toBe(45);
+
+    // Without lineGap, lines are childGap apart; a GROW child takes what is left of its line
+    const grow = boxOf(cmds, "grow");
+    expect(boxOf(cmds, "g2")?.y).toBe((grow?.y || 0) + 30);
+    expect(boxOf(cmds, "g3")).toMatchObject({ x: (grow?.x || 0) + 130, width: 70 });
+  });
+
+  test("splits the rest of a wrapped line by the weight of its GROW children", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({}, () => {
+          p.row({ id: "weights", width: Sizing.fixed(200), wrap: true, childGap: 10 }, () => {
+            item(p, "fixed", 80);
+            p.rect({ id: "one", width: Sizing.fr(1), height: Sizing.fixed(20) });
+            p.rect({ id: "three", width: Sizing.fr(3), height: Sizing.fixed(20) });
+          });
+        })
+      )
+    );
+
+    // 200pt minus the 80pt child and two gaps leaves 100pt, split 1:3
+    const x = boxOf(cmds, "weights")?.x || 0;
+    expect(boxOf(cmds, "one")).toMatchObject({ x: x + 90, width: 25 });
+    expect(boxOf(cmds, "three")).toMatchObject({ x: x + 125, width: 75 });
+  });
+});
+
+describe("grid", () => {
+  const boxOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds.find((c) => c.id === id)?.boundingBox;
+
+  test("sizes fixed, fractional and fit tracks and places spanning children", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.grow() }, () => {
+          p.grid(
+            {
+              id: "grid",
+              width: Sizing.grow(),
+              columns: [Sizing.fixed(60), Sizing.fr(1), Sizing.fr(2), Sizing.fit()],
+              gap: 10,
+            },
+            () => {
+              p.rect({ id: "a", height: Sizing.fixed(20), backgroundColor: "#ccc" });
+              p.rect({ id: "b", height: Sizing.fixed(30), backgroundColor: "#ccc" });
+              p.rect({ id: "c", backgroundColor: "#ccc" });
+              p.rect({
+                id: "d",
+                width: Sizing.fixed(40),
+                height: Sizing.fixed(10),
+                backgroundColor: "#ccc",
+              });
+              p.rect({ id: "e", colSpan: 2, rowSpan: 2, backgroundColor: "#ccc" });
+              p.rect({ id: "f", height: Sizing.fixed(15), backgroundColor: "#ccc" });
+            }
+          );
+        })
+      )
+    );
+
+    // 60 + 90 + 180 + 40 plus three gaps of 10 fill the 400px width
+    expect(boxOf(cmds, "b")).toEqual({ x: 70, y: 0, width: 90, height: 30 });
+    expect(boxOf(cmds, "c")).toEqual({ x: 170, y: 0, width: 180, height: 30 });
+    expect(boxOf(cmds, "d")).toEqual({ x: 360, y: 0, width: 40, height: 10 });
+    // e spans two columns and two rows; f is auto-placed after it
+    expect(boxOf(cmds, "e")).toEqual({ x: 0, y: 40, width: 160, height: 25 });
+    expect(boxOf(cmds, "f")).toEqual({ x: 170, y: 40, width: 180, height: 15 });
+    expect(boxOf(cmds, "grid")?.height).toBe(65);
+  });
+
+  test("fits the grid to its tracks and grows rows with wrapped text", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({ width: Sizing.grow() }, () => {
+          p.grid({ id: "fit", columns: [Sizing.fit(), Sizing.fixed(30)], gap: 4 }, () => {
+            p.rect({ id: "a", width: Sizing.fixed(50), height: Sizing.fixed(20) });
+            p.rect({ id: "b", backgroundColor: "#ccc" });
+            p.rect({ id: "wide", colSpan: 2, width: Sizing.fixed(120), height: Sizing.fixed(10) });
+          });
+          p.grid(
+            { id: "cards", width: Sizing.grow(), columns: [Sizing.fr(), Sizing.fr()], gap: 20 },
+            () => {
+              p.text("A longer sentence that will need to wrap onto several lines", {
+                id: "body",
+                fontSize: 10,
+                width: Sizing.grow(),
+              });
+              p.rect({ id: "side", backgroundColor: "#ccc" });
+            }
+          );
+        })
+      )
+    );
+
+    // The spanning child widens the fit column to 120 - 4 - 30
+    expect(boxOf(cmds, "fit")).toEqual({ x: 0, y: 0, width: 120, height: 34 });
+    expect(boxOf(cmds, "b")).toEqual({ x: 90, y: 0, width: 30, height: 20 });
+
+    const lines = cmds.filter((c) => c.id === "body");
+    expect(lines.length).toBe(2);
+    expect(lines.every((line) => line.boundingBox.width <= 190)).toBe(true);
+    expect(boxOf(cmds, "side")).toEqual({ x: 210, y: 34, width: 190, height: 22 });
+  });
+});
+
+describe("space distribution and alignSelf", () => {
+  const boxOf = (cmds: Awaited<ReturnType<typeof commandsFor>>, id: string) =>
+    cmds.find((c) => c.id === id)?.boundingBox;
+  const item = (p: Pardal, id: string, config: ElementDeclaration = {}) =>
+    p.rect({
+      id,
+      width: Sizing.fixed(50),
+      height: Sizing.fixed(20),
+      backgroundColor: "#ccc",
+      ...config,
+    });
+
+  test("spreads the free main-axis space between, around and evenly", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({}, () => {
+          p.row(
+            { width: Sizing.fixed(300), childGap: 10, childAlignment: Alignment.spaceBetween() },
+            () => {
+              item(p, "b1");
+              item(p, "b2");
+              item(p, "b3");
+            }
+          );
+          p.row({ width: Sizing.fixed(300), childAlignment: Alignment.spaceAround() }, () => {
+            item(p, "a1");
+            item(p, "a2");
+          });
+          p.row({ width: Sizing.fixed(300), childAlignment: Alignment.spaceEvenly() }, () => {
+            item(p, "e1");
+            item(p, "e2");
+          });
+        })
+      )
+    );
+
+    expect([boxOf(cmds, "b1")?.x, boxOf(cmds, "b2")?.x, boxOf(cmds, "b3")?.x]).toEqual([
+      0, 125, 250,
+    ]);
+    expect([boxOf(cmds, "a1")?.x, boxOf(cmds, "a2")?.x]).toEqual([50, 200]);
+    expect(boxOf(cmds, "e1")?.x).toBeCloseTo(200 / 3);
+    expect(boxOf(cmds, "e2")?.x).toBeCloseTo(550 / 3);
+  });
+
+  test("alignSelf overrides the parent's cross-axis alignment for one child", async () => {
+    const cmds = await commandsFor((p) =>
+      p.page(() =>
+        p.column({}, () => {
+          p.column({ id: "invoice", width: Sizing.fixed(300), childGap: 4 }, () => {
+            item(p, "line");
+            item(p, "total", { alignSelf: { x: LayoutAlignmentX.RIGHT } });
+          });
+          p.row(
+            { id: "row", height: Sizing.fixed(60), childAlignment: Alignment.topLeft() },
+            () => {
+              item(p, "top");
+              item(p, "middle", { alignSelf: Alignment.center() });
+            }
+          );
+        })
+      )
+    );
+
+    const invoice = boxOf(cmds, "invoice");
+    expect(boxOf(cmds, "line")?.x).toBe(invoice?.x);
+    expect(boxOf(cmds, "total")).toMatchObject({
+      x: (invoice?.x || 0) + 250,
+      y: (invoice?.y || 0) + 24,
+    });
+
+    const row = boxOf(cmds, "row");
+    expect(boxOf(cmds, "top")?.y).toBe(row?.y);
+    expect(boxOf(cmds, "middle")?.y).toBe((row?.y || 0) + 20);
+  });
+});
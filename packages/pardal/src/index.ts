@@ -1,8 +1,11 @@
 import { createElement, endElement } from "./application/element-factory";
+import { createMarkdown } from "./application/markdown";
+import { createTable } from "./application/table";
 // Importando para reexportar
 import { Alignment } from "./domain/layout/alignment";
 import { multiPassLayoutEngine } from "./domain/layout/engine";
 import { Padding } from "./domain/layout/padding";
+import { PageSize } from "./domain/layout/page-size";
 import { Sizing } from "./domain/layout/sizing";
 import type { ElementDeclaration, LayoutElement } from "./domain/model/element";
 import { DefaultImageFactory, type ImageFactory } from "./domain/model/image";
@@ -12,16 +15,29 @@ import {
   type Dimensions,
   Direction,
   type ElementType,
+  type FontFaceConfig,
   type FontOptions,
+  type HyphenationConfig,
+  LayoutAlignmentX,
+  LayoutAlignmentY,
+  type MarkdownTheme,
+  type PageConfig,
+  type PageInfo,
+  type PageTemplate,
   type PardalContext,
+  type TableConfig,
+  type TextSpan,
 } from "./domain/model/types";
 import { ImageFitMode } from "./domain/model/types";
 import { TextAlignment } from "./domain/model/types";
-import type { RenderCommand } from "./domain/rendering/commands";
+import { type RenderCommand, RenderLayer } from "./domain/rendering/commands";
+import { normalizeFontWeight, parseFontFile } from "./domain/utils/font";
+import { compileHyphenation } from "./domain/utils/hyphenation";
 // Importando Logger como tipo para evitar problemas
 import type { Logger } from "./domain/utils/logger";
 import { ConsoleLogger, LogLevel } from "./domain/utils/logger";
 import { NullLogger } from "./domain/utils/logger";
+import { resolvePageTokens } from "./domain/utils/text";
 import { renderToPDF } from "./infrastructure/pdf-renderer";
 import { Buffer } from "./polyfills/buffer";
 
@@ -40,6 +56,12 @@ function ensureIdAndPageId(
   return config;
 }
 
+// Layouts completos para acomodar cabeçalhos e rodapés cuja altura muda com o total de páginas
+const MAX_LAYOUT_PASSES = 3;
+
+// Altura de cabeçalho e rodapé por página declarada
+type PageTemplateHeights = Map<number, { header: number; footer: number }>;
+
 export interface PardalOptions {
   // Dimensões iniciais do documento PDF
   dimensions?: { width: number; height: number };
@@ -53,14 +75,26 @@ export interface PardalOptions {
   logger?: Logger;
   // Opções de fontes
   fonts?: FontOptions;
+  // Famílias (registradas ou padrão do PDF) para caracteres ausentes na fonte do texto
+  fallbackFonts?: string[];
+  // Idioma padrão dos textos, usado na hifenização (padrão: "en")
+  lang?: string;
   // Flag para usar imagens para renderizar emojis
   useImageForEmojis?: boolean;
   // Fator de espaçamento entre linhas
   lineSpacingFactor?: number;
+  // Quebra automaticamente o conteúdo que transborda a página em novas páginas
+  autoPagination?: boolean;
+  // Cabeçalho repetido em todas as páginas físicas
+  header?: PageTemplate;
+  // Rodapé repetido em todas as páginas físicas
+  footer?: PageTemplate;
 }
 
 export default class Pardal {
   private context: PardalContext;
+  // Cabeçalhos e rodapés montados para cada página física, posicionados na renderização
+  private pageTemplates: { commands: RenderCommand[]; pageId: number; offsetY: number }[] = [];
 
   constructor() {
     this.context = {
@@ -74,6 +108,10 @@ export default class Pardal {
       idMap: new Map(),
       debugMode: false,
       fonts: DEFAULT_FONTS,
+      registeredFonts: [],
+      fallbackFonts: [],
+      lang: "en",
+      hyphenation: {},
       pdfKitFactory: new DefaultPDFKitFactory(),
       imageFactory: new DefaultImageFactory(),
       logger: new ConsoleLogger(),
@@ -81,6 +119,7 @@ export default class Pardal {
       currentPageId: 0,
       useImageForEmojis: false,
       lineSpacingFactor: 1.2,
+      autoPagination: false,
     };
   }
 
@@ -88,51 +127,225 @@ export default class Pardal {
     options: PardalOptions,
     childrenFn: (pardal: Pardal) => void
   ): Promise<ArrayBuffer> {
-    const pardal = new Pardal();
-    pardal.context.layoutDimensions = options.dimensions || { width: 595, height: 842 };
-    pardal.context.debugMode = options.debugMode || false;
-    pardal.context.fonts = options.fonts || DEFAULT_FONTS;
-    pardal.context.useImageForEmojis =
-      options.useImageForEmojis !== undefined ? options.useImageForEmojis : true;
-    pardal.context.lineSpacingFactor =
-      options.lineSpacingFactor !== undefined ? options.lineSpacingFactor : 1.2;
-
-    // Usar factory e logger injetados, se disponíveis
-    if (options.pdfKitFactory) {
-      pardal.context.pdfKitFactory = options.pdfKitFactory;
-    }
+    const declare = () => {
+      const pardal = new Pardal();
+      pardal.context.layoutDimensions = options.dimensions || { width: 595, height: 842 };
+      pardal.context.debugMode = options.debugMode || false;
+      pardal.context.fonts = options.fonts || DEFAULT_FONTS;
+      pardal.context.fallbackFonts = options.fallbackFonts || [];
+      pardal.context.lang = options.lang || "en";
+      pardal.context.useImageForEmojis =
+        options.useImageForEmojis !== undefined ? options.useImageForEmojis : true;
+      pardal.context.lineSpacingFactor =
+        options.lineSpacingFactor !== undefined ? options.lineSpacingFactor : 1.2;
+      pardal.context.autoPagination = options.autoPagination || false;
+      pardal.context.header = options.header;
+      pardal.context.footer = options.footer;
+
+      // Usar factory e logger injetados, se disponíveis
+      if (options.pdfKitFactory) {
+        pardal.context.pdfKitFactory = options.pdfKitFactory;
+      }
+
+      if (options.imageFactory) {
+        pardal.context.imageFactory = options.imageFactory;
+      }
+
+      if (options.logger) {
+        pardal.context.logger = options.logger;
+      } else {
+        // Define o nível de log baseado nas opções fornecidas
+        const logLevel = options.debugMode ? LogLevel.DEBUG : LogLevel.INFO;
+        pardal.context.logger = new ConsoleLogger(logLevel);
+      }
+
+      childrenFn(pardal);
+      return pardal;
+    };
 
-    if (options.imageFactory) {
-      pardal.context.imageFactory = options.imageFactory;
+    // O total de páginas só é conhecido depois da paginação: se os cabeçalhos e rodapés
+    // montados com ele não têm a altura reservada, o documento é declarado e montado de novo
+    let pardal = declare();
+    let templateHeights = pardal.layout();
+    for (let pass = 1; pass < MAX_LAYOUT_PASSES && templateHeights; pass++) {
+      pardal = declare();
+      templateHeights = pardal.layout(templateHeights);
     }
 
-    if (options.logger) {
-      pardal.context.logger = options.logger;
-    } else {
-      // Define o nível de log baseado nas opções fornecidas
-      const logLevel = options.debugMode ? LogLevel.DEBUG : LogLevel.INFO;
-      pardal.context.logger = new ConsoleLogger(logLevel);
+    if (templateHeights) {
+      pardal.context.logger.warn(
+        "Cabeçalhos e rodapés não estabilizaram com o total de páginas; podem sobrepor o conteúdo"
+      );
     }
 
-    childrenFn(pardal);
-
     return pardal.render();
   }
 
   render(): Promise<ArrayBuffer> {
-    multiPassLayoutEngine(this);
+    for (const template of this.pageTemplates) {
+      this.placePageTemplate(template.commands, template.pageId, template.offsetY);
+    }
     return renderToPDF(this);
   }
 
+  /**
+   * Layout do documento: reserva o espaço de cabeçalho e rodapé em cada página, faz o layout e a
+   * paginação do conteúdo e monta cabeçalho e rodapé com o total de páginas final
+   * Retorna as alturas que eles ocupam em cada página declarada quando não são as reservadas.
+   */
+  private layout(reservedHeights?: PageTemplateHeights): PageTemplateHeights | undefined {
+    this.reservePageTemplates(reservedHeights);
+    multiPassLayoutEngine(this);
+    return this.layoutPageTemplates();
+  }
+
+  // Reserva o espaço de cabeçalho e rodapé em cada página antes do layout do conteúdo: as alturas
+  // medidas no layout anterior ou, no primeiro, as dos modelos com o total de páginas declarado
+  private reservePageTemplates(reservedHeights?: PageTemplateHeights): void {
+    const totalPages = this.context.pages.length;
+
+    for (const [index, page] of this.context.pages.entries()) {
+      const reserved = reservedHeights?.get(page.id);
+      if (reserved) {
+        page.headerHeight = reserved.header;
+        page.footerHeight = reserved.footer;
+        continue;
+      }
+
+      const info: PageInfo = { pageNumber: index + 1, totalPages };
+      const header = this.resolvePageTemplate(page.header, this.context.header);
+      const footer = this.resolvePageTemplate(page.footer, this.context.footer);
+
+      page.headerHeight = header ? this.layoutPageTemplate(header, info, page.sizes).height : 0;
+      page.footerHeight = footer ? this.layoutPageTemplate(footer, info, page.sizes).height : 0;
+    }
+  }
+
+  // Monta cabeçalho e rodapé uma vez por página física, já com o total de páginas conhecido
+  private layoutPageTemplates(): PageTemplateHeights | undefined {
+    const totalPages = this.context.pages.length;
+    const heights: PageTemplateHeights = new Map();
+    this.pageTemplates = [];
+
+    for (const [index, page] of this.context.pages.entries()) {
+      const info: PageInfo = { pageNumber: index + 1, totalPages };
+      const header = this.resolvePageTemplate(page.header, this.context.header);
+      const footer = this.resolvePageTemplate(page.footer, this.context.footer);
+      const headerLayout = header ? this.layoutPageTemplate(header, info, page.sizes) : undefined;
+      const footerLayout = footer ? this.layoutPageTemplate(footer, info, page.sizes) : undefined;
+
+      if (headerLayout) {
+        this.pageTemplates.push({ commands: headerLayout.commands, pageId: page.id, offsetY: 0 });
+      }
+
+      if (footerLayout) {
+        this.pageTemplates.push({
+          commands: footerLayout.commands,
+          pageId: page.id,
+          offsetY: page.sizes.height - footerLayout.height,
+        });
+      }
+
+      // Páginas criadas pela paginação dividem a reserva da página declarada: vale a maior altura
+      const declaredPageId = page.declaredPageId || page.id;
+      const previous = heights.get(declaredPageId) || { header: 0, footer: 0 };
+      heights.set(declaredPageId, {
+        header: Math.max(previous.header, headerLayout ? headerLayout.height : 0),
+        footer: Math.max(previous.footer, footerLayout ? footerLayout.height : 0),
+      });
+    }
+
+    const fits = this.context.pages.every((page) => {
+      const needed = heights.get(page.declaredPageId || page.id);
+      return (
+        needed?.header === (page.headerHeight || 0) && needed?.footer === (page.footerHeight || 0)
+      );
+    });
+
+    return fits ? undefined : heights;
+  }
+
+  private resolvePageTemplate(
+    override: PageTemplate | null | undefined,
+    fallback: PageTemplate | undefined
+  ): PageTemplate | undefined {
+    if (override === null) {
+      return undefined;
+    }
+    return override || fallback;
+  }
+
+  // Faz o layout de um cabeçalho/rodapé em uma instância isolada, resolvendo os marcadores de página
+  private layoutPageTemplate(
+    template: PageTemplate,
+    info: PageInfo,
+    sizes: Dimensions
+  ): { commands: RenderCommand[]; height: number } {
+    const region = new Pardal();
+    region.context = {
+      ...region.context,
+      layoutDimensions: sizes,
+      debugMode: this.context.debugMode,
+      fonts: this.context.fonts,
+      registeredFonts: this.context.registeredFonts,
+      fallbackFonts: this.context.fallbackFonts,
+      lang: this.context.lang,
+      hyphenation: this.context.hyphenation,
+      pdfKitFactory: this.context.pdfKitFactory,
+      imageFactory: this.context.imageFactory,
+      logger: this.context.logger,
+      useImageForEmojis: this.context.useImageForEmojis,
+      lineSpacingFactor: this.context.lineSpacingFactor,
+    };
+
+    region.page(() => template(region, info));
+
+    for (const element of region.context.layoutElements) {
+      if (element.textConfig) {
+        element.textConfig.content = resolvePageTokens(element.textConfig.content, info);
+        element.textConfig.spans = element.textConfig.spans?.map((span) => ({
+          ...span,
+          text: resolvePageTokens(span.text, info),
+        }));
+      }
+    }
+
+    multiPassLayoutEngine(region);
+
+    const commands = region.getRenderCommands();
+    const height = Math.max(
+      0,
+      ...commands.map((command) => command.boundingBox.y + command.boundingBox.height)
+    );
+
+    return { commands, height };
+  }
+
+  private placePageTemplate(commands: RenderCommand[], pageId: number, offsetY: number): void {
+    // Cabeçalho e rodapé ficam na camada acima do conteúdo, com a ordem de pintura do seu layout
+    for (const command of commands) {
+      command.pageId = pageId;
+      command.boundingBox = { ...command.boundingBox, y: command.boundingBox.y + offsetY };
+      command.layer = RenderLayer.PAGE_TEMPLATE;
+      this.addRenderCommand(command);
+    }
+  }
+
   page(
-    configOrChildren: { sizes: Dimensions } | ((pardal: Pardal) => void),
+    configOrChildren: PageConfig | ((pardal: Pardal) => void),
     children?: (pardal: Pardal) => void
   ): void {
     const pageId = this.context.pages.length + 1;
     this.context.currentPageId = pageId;
 
-    if ("sizes" in configOrChildren && children) {
-      this.context.pages.push({ id: pageId, sizes: configOrChildren.sizes });
+    if (typeof configOrChildren !== "function" && children) {
+      this.context.pages.push({
+        id: pageId,
+        sizes: configOrChildren.sizes || this.context.layoutDimensions,
+        autoPagination: configOrChildren.autoPagination,
+        header: configOrChildren.header,
+        footer: configOrChildren.footer,
+      });
       children(this);
     } else if (typeof configOrChildren === "function") {
       this.context.pages.push({ id: pageId, sizes: this.context.layoutDimensions });
@@ -181,6 +394,25 @@ export default class Pardal {
     this.element("text", ensureIdAndPageId(this.context, processedConfig, "text"));
   }
 
+  /**
+   * Cria um elemento de texto rico a partir de trechos com estilo próprio
+   * Os trechos quebram linhas juntos, como um único parágrafo; o config define os
+   * valores padrão (fontSize, color...) herdados pelos trechos que não os definem.
+   */
+  richText(spans: TextSpan[], config: ElementDeclaration = {}): void {
+    if (this.context.debugMode) {
+      this.context.logger.debug(`Criando elemento de texto rico ${config.id || "sem id"}`);
+    }
+
+    const processedConfig: ElementDeclaration = {
+      ...config,
+      text: spans.map((span) => span.text).join(""),
+      spans,
+    };
+
+    this.element("text", ensureIdAndPageId(this.context, processedConfig, "text"));
+  }
+
   // Helper para criar um elemento com filho(s) usando uma função de callback
   withChildren(type: ElementType, config: ElementDeclaration, children: () => void): void {
     if (this.context.debugMode) {
@@ -209,14 +441,15 @@ export default class Pardal {
     this.withRect(ensureIdAndPageId(this.context, config, "boxBlur"), children);
   }
 
-  // Helper de linha (grupo horizontal)
+  // Helper de linha (grupo horizontal; aceita `direction: Direction.ROW_REVERSE`)
   row(config: ElementDeclaration, children: () => void): void {
     this.withRect(
       ensureIdAndPageId(
         this.context,
         {
           ...config,
-          direction: Direction.ROW,
+          direction:
+            config.direction === Direction.ROW_REVERSE ? Direction.ROW_REVERSE : Direction.ROW,
         },
         "row"
       ),
@@ -224,14 +457,17 @@ export default class Pardal {
     );
   }
 
-  // Helper de coluna (grupo vertical)
+  // Helper de coluna (grupo vertical; aceita `direction: Direction.COLUMN_REVERSE`)
   column(config: ElementDeclaration, children: () => void): void {
     this.withRect(
       ensureIdAndPageId(
         this.context,
         {
           ...config,
-          direction: Direction.COLUMN,
+          direction:
+            config.direction === Direction.COLUMN_REVERSE
+              ? Direction.COLUMN_REVERSE
+              : Direction.COLUMN,
         },
         "column"
       ),
@@ -239,6 +475,18 @@ export default class Pardal {
     );
   }
 
+  // Helper de grade: filhos nas células (`colSpan`/`rowSpan`), na ordem de declaração
+  grid(config: ElementDeclaration, children: () => void): void {
+    this.withRect(
+      ensureIdAndPageId(
+        this.context,
+        { ...config, columns: config.columns || [Sizing.grow()] },
+        "grid"
+      ),
+      children
+    );
+  }
+
   // Helper para criar um elemento de imagem com filho(s)
   withImage(source: Buffer, config: ElementDeclaration, children: () => void): void {
     const processedConfig: ElementDeclaration = {
@@ -271,6 +519,58 @@ export default class Pardal {
     }
   }
 
+  /**
+   * Registra uma face (peso e estilo) de uma família de fontes a partir do arquivo TTF/OTF/WOFF
+   * A fonte é incorporada ao documento e usada tanto na medição quanto na renderização
+   * de textos e trechos com `fontFamily` igual à família registrada.
+   */
+  registerFont(family: string, face: FontFaceConfig): void {
+    const weight = normalizeFontWeight(face.weight);
+    const style = face.style || "normal";
+    const name = `${family}-${weight}${style === "italic" ? "-italic" : ""}`;
+
+    if (this.context.debugMode) {
+      this.context.logger.debug(`Registrando fonte ${name}`);
+    }
+
+    this.context.registeredFonts = [
+      ...this.context.registeredFonts.filter((font) => font.name !== name),
+      { family, weight, style, name, buffer: face.buffer, font: parseFontFile(face.buffer) },
+    ];
+  }
+
+  /**
+   * Registra os padrões de hifenização de um idioma ("en", "pt-BR", ...)
+   * Usados nos textos com `hyphens: "auto"` desse idioma; "pt-BR" também serve aos textos
+   * em "pt-BR" e um registro em "pt" serve a todas as variantes de português.
+   */
+  registerHyphenation(lang: string, config: HyphenationConfig): void {
+    if (this.context.debugMode) {
+      this.context.logger.debug(`Registrando hifenização ${lang}`);
+    }
+
+    this.context.hyphenation = {
+      ...this.context.hyphenation,
+      [lang.toLowerCase()]: compileHyphenation(config),
+    };
+  }
+
+  // Helper de tabela: colunas com largura consistente em todas as linhas
+  table<T>(config: TableConfig<T>): void {
+    if (this.context.debugMode) {
+      this.context.logger.debug(`Criando tabela ${config.id || "sem id"}`);
+    }
+    createTable(this, config);
+  }
+
+  // Helper de Markdown: títulos, parágrafos, listas, citações, código, linhas e tabelas
+  markdown(source: string, theme: MarkdownTheme = {}): void {
+    if (this.context.debugMode) {
+      this.context.logger.debug("Criando documento Markdown");
+    }
+    createMarkdown(this, source, theme);
+  }
+
   // Add context getters
   getContext(): PardalContext {
     return this.context;
@@ -367,7 +667,17 @@ export default class Pardal {
   }
 }
 
-export { Sizing, Alignment, Padding, ImageFitMode, TextAlignment };
+export {
+  Sizing,
+  Alignment,
+  Padding,
+  PageSize,
+  ImageFitMode,
+  TextAlignment,
+  Direction,
+  LayoutAlignmentX,
+  LayoutAlignmentY,
+};
 
 // Exportações de funções auxiliares
 export { measureWords, wrapTextIntoLines } from "./domain/layout/engine";
@@ -375,6 +685,30 @@ export { measureWords, wrapTextIntoLines } from "./domain/layout/engine";
 // Exportações de classes concretas
 export { DefaultPDFKitFactory, DefaultImageFactory, ConsoleLogger, type ImageFactory, LogLevel, NullLogger };
 export type { Logger } from "./domain/utils/logger";
+export type {
+  CornerRadii,
+  CornerRadius,
+  Fill,
+  FontFaceConfig,
+  Gradient,
+  GradientStop,
+  HyphenationConfig,
+  LinearGradient,
+  MarkdownTheme,
+  PageConfig,
+  PageInfo,
+  PageTemplate,
+  RadialGradient,
+  ShadowConfig,
+  TableColumn,
+  TableConfig,
+  TextDirection,
+  TextHyphens,
+  TextOverflow,
+  TextOverflowWrap,
+  TextSpan,
+  TextStyle,
+} from "./domain/model/types";
 
 // Polyfills
 export { Buffer };
@@ -1,13 +1,31 @@
-import type Pardal from "~/index";
-import { Buffer } from "~/polyfills/buffer";
 import { getFontForWord } from "~/domain/layout/engine";
+import type { MeasuredWord } from "~/domain/model/element";
 import type { PDFDocument } from "~/domain/model/pdfkit";
 import { DEFAULT_FONTS } from "~/domain/model/types";
-import type { CornerRadius, PardalContext } from "~/domain/model/types";
-import { RenderCommandType } from "~/domain/rendering/commands";
+import type {
+  BorderConfig,
+  Borders,
+  BoundingBox,
+  CornerRadii,
+  CornerRadius,
+  Fill,
+  PardalContext,
+} from "~/domain/model/types";
+import { RenderCommandType, compareRenderOrder } from "~/domain/rendering/commands";
 import type { RenderCommand } from "~/domain/rendering/commands";
+import { isUniformBorder } from "~/domain/utils/border";
+import {
+  hasCornerRadius,
+  insetCornerRadii,
+  resolveCornerRadii,
+} from "~/domain/utils/corner-radius";
 import { isEmoji, isKeyCap, renderEmoji } from "~/domain/utils/emoji";
+import { applyRegisteredFonts } from "~/domain/utils/font";
+import { isGradient, linearGradientPoints, radialGradientGeometry } from "~/domain/utils/gradient";
 import { ptToPx } from "~/domain/utils/size";
+import { wordBaselineShift, wordFontSize } from "~/domain/utils/text";
+import type Pardal from "~/index";
+import { Buffer } from "~/polyfills/buffer";
 
 function getChildrenElementsRenderCommands(pardal: Pardal, parentId: string): RenderCommand[] {
   const currentContext = pardal.getContext();
@@ -53,7 +71,7 @@ function getChildrenElementsRenderCommands(pardal: Pardal, parentId: string): Re
 export function changeChildTextColor(
   pardal: Pardal, 
   childCommands: RenderCommand[], 
-  newColor: string
+  newColor: Fill
 ): number {
   pardal.setRenderCommands(pardal.getContext().renderCommands.map((command) => {
     if (childCommands.some((child) => child.id === command.id) && command.commandType === RenderCommandType.TEXT && command.renderData.text) {
@@ -78,6 +96,7 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
     size: [currentContext.layoutDimensions.width, currentContext.layoutDimensions.height],
     autoFirstPage: false, // Não crie a primeira página automaticamente
   });
+  applyRegisteredFonts(doc, currentContext.registeredFonts);
 
   // Verificar se já temos comandos de renderização
   if (currentContext.renderCommands.length === 0) {
@@ -115,9 +134,14 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
 
   // Renderizar cada página
   for (const pageId of pageIds) {
+    // Cada página usa o seu próprio tamanho (ou o tamanho do documento)
+    const pageSize =
+      currentContext.pages.find((page) => page.id === pageId)?.sizes ||
+      currentContext.layoutDimensions;
+
     // Adicionar nova página ao documento
     doc.addPage({
-      size: [currentContext.layoutDimensions.width, currentContext.layoutDimensions.height],
+      size: [pageSize.width, pageSize.height],
       margins: { top: 0, left: 0, bottom: 0, right: 0 },
     });
 
@@ -125,9 +149,9 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
       currentContext.logger.debug(`Renderizando página ${pageId}`);
     }
 
-    // Comandos para esta página, ordenados por Z-index
+    // Comandos para esta página, ordenados pela camada e pelo Z-index
     const pageCommands = commandsByPage.get(pageId) || [];
-    const sortedCommands = [...pageCommands].sort((a, b) => a.zIndex - b.zIndex);
+    const sortedCommands = [...pageCommands].sort(compareRenderOrder);
 
     if (currentContext.debugMode) {
       currentContext.logger.debug(`Comandos para página ${pageId}: ${sortedCommands.length}`);
@@ -136,7 +160,7 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
     // Adicionar um retângulo de fundo para depuração apenas se estiver no modo debug
     if (currentContext.debugMode) {
       doc
-        .rect(0, 0, currentContext.layoutDimensions.width, currentContext.layoutDimensions.height)
+        .rect(0, 0, pageSize.width, pageSize.height)
         .fillColor("#EEEEEE")
         .fill();
     }
@@ -148,7 +172,7 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
       switch (command.commandType) {
         case RenderCommandType.RECTANGLE:
           if (command.renderData.rectangle) {
-            const { backgroundColor, cornerRadius } = command.renderData.rectangle;
+            const { backgroundColor, cornerRadius, borders } = command.renderData.rectangle;
             if (command.id.startsWith("boxBlur")) {
               const childrenRenderCommands = getChildrenElementsRenderCommands(pardal, command.id);
               const spreadness = command.renderData.rectangle?.spreadness || 0;
@@ -214,7 +238,8 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
                 width,
                 height,
                 backgroundColor,
-                cornerRadius
+                cornerRadius,
+                borders
               );
             }
           }
@@ -222,8 +247,14 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
 
         case RenderCommandType.CIRCLE:
           if (command.renderData.circle) {
-            const { backgroundColor } = command.renderData.circle;
-            drawCircle(currentContext, doc, x, y, width, backgroundColor);
+            const { backgroundColor, borders } = command.renderData.circle;
+            drawCircle(currentContext, doc, x, y, width, backgroundColor, borders);
+          }
+          break;
+
+        case RenderCommandType.SHADOW:
+          if (command.renderData.shadow) {
+            await drawShadow(currentContext, doc, x, y, width, height, command.renderData.shadow);
           }
           break;
 
@@ -270,6 +301,11 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
       for (const command of [...sortedCommands].reverse()) {
         const { x, y, width, height } = command.boundingBox;
 
+        // Sombras não fazem parte do layout
+        if (command.commandType === RenderCommandType.SHADOW) {
+          continue;
+        }
+
         // Verificação adicional para garantir integridade das dimensões
         if (width <= 0 || height <= 0) {
           currentContext.logger.warn(
@@ -290,12 +326,12 @@ export async function renderToPDF(pardal: Pardal): Promise<ArrayBuffer> {
           doc.strokeColor("#FF0000");
         }
 
-        // Para retângulos com corner radius, desenhe bordas arredondadas também
-        if (
-          command.commandType === RenderCommandType.RECTANGLE &&
-          command.renderData.rectangle?.cornerRadius
-        ) {
-          doc.roundedRect(x, y, width, height, command.renderData.rectangle.cornerRadius).stroke();
+        // Para retângulos e imagens com corner radius, desenhe bordas arredondadas também
+        const debugRadius =
+          command.renderData.rectangle?.cornerRadius || command.renderData.image?.cornerRadius;
+        if (hasCornerRadius(debugRadius)) {
+          traceRoundedRect(doc, x, y, width, height, resolveCornerRadii(debugRadius, width, height));
+          doc.stroke();
         } else {
           doc.rect(x, y, width, height).stroke();
         }
@@ -452,11 +488,107 @@ export async function createTextHighlightSvg(
       </g>
     </svg>`;
 
-  // Converter o SVG para buffer
-  const svgBuffer = Buffer.from(textHighlightSvg) as unknown as Buffer;
-  const textHighlightOverlay = await context.imageFactory.createProcessor().toPng(svgBuffer);
+  return svgToPng(context, textHighlightSvg);
+}
+
+/**
+ * Rasteriza um SVG em PNG com o processador de imagens do contexto
+ */
+async function svgToPng(context: PardalContext, svg: string): Promise<Buffer> {
+  const svgBuffer = Buffer.from(svg) as unknown as Buffer;
+  return context.imageFactory.createProcessor().toPng(svgBuffer);
+}
+
+// Resolução da sombra desfocada rasterizada, em pixels por ponto
+const SHADOW_RASTER_SCALE = 2;
+
+/**
+ * Desenha a sombra de um elemento
+ * Sem desfoque a sombra é um preenchimento vetorial; com desfoque é um SVG com
+ * feGaussianBlur rasterizado em PNG, que se estende além da caixa da sombra
+ */
+async function drawShadow(
+  context: PardalContext,
+  doc: PDFDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  shadow: NonNullable<RenderCommand["renderData"]["shadow"]>
+): Promise<void> {
+  if (width <= 0 || height <= 0 || shadow.opacity <= 0) {
+    return;
+  }
+
+  if (context.debugMode) {
+    context.logger.debug(
+      `Desenhando sombra em (${x}, ${y}) com tamanho ${width}x${height} e desfoque ${shadow.blur}`
+    );
+  }
+
+  if (shadow.blur <= 0) {
+    doc.save();
+    doc.fillColor(shadow.color).fillOpacity(shadow.opacity);
+    if (hasCornerRadius(shadow.cornerRadius)) {
+      const radii = resolveCornerRadii(shadow.cornerRadius, width, height);
+      traceRoundedRect(doc, x, y, width, height, radii);
+    } else {
+      doc.rect(x, y, width, height);
+    }
+    doc.fill();
+    doc.restore();
+    return;
+  }
+
+  // Como no CSS, o desvio-padrão é metade do raio de desfoque; a margem cobre ~3 desvios
+  const margin = Math.ceil(shadow.blur * 1.5);
+  const outerWidth = width + margin * 2;
+  const outerHeight = height + margin * 2;
+  const radii = resolveCornerRadii(shadow.cornerRadius, width, height);
+
+  const shadowSvg = `<svg width="${Math.ceil(outerWidth * SHADOW_RASTER_SCALE)}" height="${Math.ceil(outerHeight * SHADOW_RASTER_SCALE)}" viewBox="0 0 ${outerWidth} ${outerHeight}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <filter id="shadowBlur" x="-50%" y="-50%" width="200%" height="200%">
+          <feGaussianBlur in="SourceGraphic" stdDeviation="${shadow.blur / 2}" />
+        </filter>
+      </defs>
+      <path d="${roundedRectPath(margin, margin, width, height, radii)}" fill="${shadow.color}" fill-opacity="${shadow.opacity}" filter="url(#shadowBlur)" />
+    </svg>`;
+
+  try {
+    const image = await svgToPng(context, shadowSvg);
+    doc.image(image, x - margin, y - margin, { width: outerWidth, height: outerHeight });
+  } catch (error) {
+    context.logger.error("Erro ao renderizar sombra:", error);
+  }
+}
 
-  return textHighlightOverlay;
+/**
+ * Caminho SVG de um retângulo com um raio por canto
+ */
+function roundedRectPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radii: Required<CornerRadii>
+): string {
+  const { topLeft, topRight, bottomRight, bottomLeft } = radii;
+  const right = x + width;
+  const bottom = y + height;
+
+  return [
+    `M ${x + topLeft},${y}`,
+    `H ${right - topRight}`,
+    `A ${topRight} ${topRight} 0 0 1 ${right} ${y + topRight}`,
+    `V ${bottom - bottomRight}`,
+    `A ${bottomRight} ${bottomRight} 0 0 1 ${right - bottomRight} ${bottom}`,
+    `H ${x + bottomLeft}`,
+    `A ${bottomLeft} ${bottomLeft} 0 0 1 ${x} ${bottom - bottomLeft}`,
+    `V ${y + topLeft}`,
+    `A ${topLeft} ${topLeft} 0 0 1 ${x + topLeft} ${y}`,
+    "Z",
+  ].join(" ");
 }
 
 /**
@@ -510,40 +642,14 @@ function drawImage(
 
       doc.circle(centerX, centerY, radius);
       doc.clip();
-    } else if (cornerRadius) {
-      // Para cantos arredondados
+    } else if (hasCornerRadius(cornerRadius)) {
+      // Para cantos arredondados (um raio por canto)
       if (context.debugMode) {
         context.logger.debug("Aplicando clipping com cantos arredondados");
       }
 
-      // Normalizar cornerRadius se for um número simples
-      const cr =
-        typeof cornerRadius === "number"
-          ? {
-              topLeft: cornerRadius,
-              topRight: cornerRadius,
-              bottomLeft: cornerRadius,
-              bottomRight: cornerRadius,
-            }
-          : cornerRadius;
-
-      // Desenhar retângulo com cantos arredondados para clipping
-      // No PDFKit, a API é roundedRect(x, y, width, height, radius)
-      // Se radius for um número, todos os cantos terão o mesmo raio
-      // Se radius for um objeto, ele define o raio de cada canto
-      const radius = Math.min(
-        cr.topLeft || 0,
-        cr.topRight || 0,
-        cr.bottomLeft || 0,
-        cr.bottomRight || 0
-      );
-
-      if (typeof radius === "number" && radius > 0) {
-        doc.roundedRect(x, y, width, height, radius).clip();
-      } else {
-        // Fallback para retângulo normal se não tivermos raios válidos
-        doc.rect(x, y, width, height).clip();
-      }
+      traceRoundedRect(doc, x, y, width, height, resolveCornerRadii(cornerRadius, width, height));
+      doc.clip();
     } else {
       // Clipping retangular padrão
       if (context.debugMode) {
@@ -609,6 +715,48 @@ function drawImage(
   }
 }
 
+/**
+ * Converte um preenchimento no valor aceito pelo PDFKit
+ * Cores sólidas passam direto; gradientes são criados sobre a caixa do elemento,
+ * de modo que as paradas 0 e 1 coincidem com as bordas da caixa
+ */
+function resolveFill(
+  doc: PDFDocument,
+  fill: Fill,
+  box: BoundingBox
+): string | PDFKit.PDFGradient {
+  if (!isGradient(fill)) {
+    return fill;
+  }
+
+  let gradient: PDFKit.PDFGradient;
+  if (fill.type === "radial") {
+    const { cx, cy, radius } = radialGradientGeometry(fill, box);
+    gradient = doc.radialGradient(cx, cy, 0, cx, cy, radius);
+  } else {
+    const { x1, y1, x2, y2 } = linearGradientPoints(fill, box);
+    gradient = doc.linearGradient(x1, y1, x2, y2);
+  }
+
+  for (const stop of fill.stops) {
+    gradient.stop(
+      Math.min(Math.max(stop.offset, 0), 1),
+      stop.color,
+      stop.opacity !== undefined ? stop.opacity : 1
+    );
+  }
+
+  return gradient;
+}
+
+// Descrição curta de um preenchimento para os logs de depuração
+function describeFill(fill: Fill): string {
+  if (!isGradient(fill)) {
+    return fill;
+  }
+  return `gradiente ${fill.type} (${fill.stops.map((stop) => stop.color).join(", ")})`;
+}
+
 function drawRectangle(
   context: PardalContext,
   doc: PDFDocument,
@@ -616,36 +764,185 @@ function drawRectangle(
   y: number,
   width: number,
   height: number,
-  backgroundColor: string,
-  cornerRadius?: number
+  backgroundColor: Fill,
+  cornerRadius?: CornerRadius,
+  borders?: Borders
 ): void {
   if (context.debugMode) {
     context.logger.debug(`Desenhando retângulo em (${x}, ${y}) com tamanho ${width}x${height}`);
   }
   if (context.debugMode) {
-    context.logger.debug(`Cor: ${backgroundColor}`);
+    context.logger.debug(`Cor: ${describeFill(backgroundColor)}`);
   }
 
   // Um fundo transparente não pinta nada — apenas ocupa espaço no layout.
-  if (!backgroundColor || backgroundColor === "transparent") {
-    return;
-  }
+  if (backgroundColor && backgroundColor !== "transparent") {
+    doc.fillColor(resolveFill(doc, backgroundColor, { x, y, width, height }));
 
-  // Usar a cor diretamente
-  const hexColor = backgroundColor;
+    if (hasCornerRadius(cornerRadius)) {
+      // Se tiver cornerRadius, desenha com cantos arredondados
+      traceRoundedRect(doc, x, y, width, height, resolveCornerRadii(cornerRadius, width, height));
+      doc.fill();
+    } else {
+      // Sem cornerRadius, desenha um retângulo normal
+      doc.rect(x, y, width, height).fill();
+    }
+  }
 
-  if (context.debugMode) {
-    context.logger.debug(`Cor em hex: ${hexColor}`);
+  if (borders) {
+    drawBorders(doc, x, y, width, height, borders, cornerRadius);
   }
+}
 
-  doc.fillColor(hexColor);
+/**
+ * Desenha as bordas de um retângulo por dentro da sua área
+ * Bordas iguais nos quatro lados formam um único contorno (respeitando os cantos arredondados);
+ * caso contrário cada lado é um segmento próprio
+ */
+function drawBorders(
+  doc: PDFDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  borders: Borders,
+  cornerRadius?: CornerRadius
+): void {
+  const radii = resolveCornerRadii(cornerRadius, width, height);
+  const rounded = hasCornerRadius(cornerRadius);
 
-  if (cornerRadius) {
-    // Se tiver cornerRadius, desenha com cantos arredondados
-    doc.roundedRect(x, y, width, height, cornerRadius).fill();
+  doc.save();
+
+  if (isUniformBorder(borders) && borders.top) {
+    const border = borders.top;
+    const inset = border.width / 2;
+    applyBorderStyle(doc, border);
+
+    if (rounded) {
+      traceRoundedRect(
+        doc,
+        x + inset,
+        y + inset,
+        width - border.width,
+        height - border.width,
+        insetCornerRadii(radii, inset)
+      );
+      doc.stroke();
+    } else {
+      doc.rect(x + inset, y + inset, width - border.width, height - border.width).stroke();
+    }
   } else {
-    // Sem cornerRadius, desenha um retângulo normal
-    doc.rect(x, y, width, height).fill();
+    const { top, right, bottom, left } = borders;
+
+    // Lados diferentes são segmentos retos, recortados pelo contorno arredondado
+    if (rounded) {
+      traceRoundedRect(doc, x, y, width, height, radii);
+      doc.clip();
+    }
+
+    if (top) {
+      applyBorderStyle(doc, top);
+      doc
+        .moveTo(x, y + top.width / 2)
+        .lineTo(x + width, y + top.width / 2)
+        .stroke();
+    }
+    if (right) {
+      applyBorderStyle(doc, right);
+      doc
+        .moveTo(x + width - right.width / 2, y)
+        .lineTo(x + width - right.width / 2, y + height)
+        .stroke();
+    }
+    if (bottom) {
+      applyBorderStyle(doc, bottom);
+      doc
+        .moveTo(x, y + height - bottom.width / 2)
+        .lineTo(x + width, y + height - bottom.width / 2)
+        .stroke();
+    }
+    if (left) {
+      applyBorderStyle(doc, left);
+      doc
+        .moveTo(x + left.width / 2, y)
+        .lineTo(x + left.width / 2, y + height)
+        .stroke();
+    }
+  }
+
+  doc.restore();
+}
+
+// Constante para aproximar um quarto de círculo com uma curva de Bézier cúbica
+const KAPPA = 0.5522847498;
+
+/**
+ * Traça (sem pintar) o caminho de um retângulo com um raio por canto
+ * O chamador decide se o caminho é preenchido, contornado ou usado como recorte
+ */
+function traceRoundedRect(
+  doc: PDFDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radii: Required<CornerRadii>
+): void {
+  const { topLeft, topRight, bottomRight, bottomLeft } = radii;
+  const right = x + width;
+  const bottom = y + height;
+
+  doc
+    .moveTo(x + topLeft, y)
+    .lineTo(right - topRight, y)
+    .bezierCurveTo(
+      right - topRight * (1 - KAPPA),
+      y,
+      right,
+      y + topRight * (1 - KAPPA),
+      right,
+      y + topRight
+    )
+    .lineTo(right, bottom - bottomRight)
+    .bezierCurveTo(
+      right,
+      bottom - bottomRight * (1 - KAPPA),
+      right - bottomRight * (1 - KAPPA),
+      bottom,
+      right - bottomRight,
+      bottom
+    )
+    .lineTo(x + bottomLeft, bottom)
+    .bezierCurveTo(
+      x + bottomLeft * (1 - KAPPA),
+      bottom,
+      x,
+      bottom - bottomLeft * (1 - KAPPA),
+      x,
+      bottom - bottomLeft
+    )
+    .lineTo(x, y + topLeft)
+    .bezierCurveTo(x, y + topLeft * (1 - KAPPA), x + topLeft * (1 - KAPPA), y, x + topLeft, y)
+    .closePath();
+}
+
+/**
+ * Configura espessura, cor e estilo do traço de uma borda
+ */
+function applyBorderStyle(doc: PDFDocument, border: BorderConfig): void {
+  doc.lineWidth(border.width).strokeColor(border.color);
+
+  switch (border.style) {
+    case "dashed":
+      doc.lineCap("butt").dash(border.width * 3, { space: border.width * 2 });
+      break;
+    case "dotted":
+      // Traços de comprimento quase nulo com ponta redonda viram pontos
+      doc.lineCap("round").dash(0.01, { space: border.width * 2 });
+      break;
+    default:
+      doc.lineCap("butt").undash();
+      break;
   }
 }
 
@@ -655,7 +952,8 @@ function drawCircle(
   x: number,
   y: number,
   width: number,
-  backgroundColor: string
+  backgroundColor: Fill,
+  borders?: Borders
 ): void {
   const radius = width / 2;
 
@@ -663,11 +961,19 @@ function drawCircle(
     context.logger.debug(`Desenhando círculo em (${x}, ${y}) com raio ${radius}`);
   }
 
-  // Usar a cor diretamente
   doc
-    .fillColor(backgroundColor)
+    .fillColor(resolveFill(doc, backgroundColor, { x, y, width, height: width }))
     .circle(x + radius, y + radius, radius)
     .fill();
+
+  // Um círculo tem um único contorno: usa a primeira borda definida
+  const border = borders && (borders.top || borders.right || borders.bottom || borders.left);
+  if (border) {
+    doc.save();
+    applyBorderStyle(doc, border);
+    doc.circle(x + radius, y + radius, radius - border.width / 2).stroke();
+    doc.restore();
+  }
 }
 
 // Helper function to handle emoji rendering
@@ -745,13 +1051,13 @@ function configureTextAppearance(
   doc: PDFDocument,
   fontFamily: string,
   fontSize: number | undefined,
-  hexColor: string,
+  color: string | PDFKit.PDFGradient,
   opacity: number
 ): void {
   doc
     .font(fontFamily)
     .fontSize(fontSize || 16)
-    .fillColor(hexColor)
+    .fillColor(color)
     .fillOpacity(opacity);
 }
 
@@ -762,110 +1068,129 @@ async function drawText(
 ): Promise<void> {
   if (!command.renderData.text) return;
 
-  const { content, color, fontSize } = command.renderData.text;
+  const { content, lines, color, fontSize, letterSpacing } = command.renderData.text;
+  // Emojis como imagem seguem a mesma correção óptica usada na linha de base do layout
   const correction = -((fontSize || 16) / 6);
-  const { x, y, width, height } = command.boundingBox;
+  const { x, y } = command.boundingBox;
 
   if (context.debugMode) {
     context.logger.debug(
       `Desenhando texto em (${x}, ${y}): "${content.map((segment) => segment.text).join("")}"`
     );
-    context.logger.debug(`Fonte: ${fontSize}px, Cor: ${color}`);
+    context.logger.debug(`Fonte: ${fontSize}px, Cor: ${describeFill(color)}`);
   }
 
-  // Atualizar para usar string diretamente
-  const hexColor = color;
-
-  if (content.length === 0) return;
-
-  // Se não houver segmentos com formatação, renderize normalmente
-  if (content.length === 1) {
-    const text = content[0].text;
-    const fontFamily = getFontForWord(content[0], context.fonts || DEFAULT_FONTS) || "Helvetica";
-
-    // Verificar se é um emoji
-    const { rendered } = await handleEmojiRendering(
-      context,
-      doc,
-      text,
-      x,
-      y,
-      fontSize,
-      context.fonts?.emoji || fontFamily
-    );
-
-    // Configurar aparência do texto
-    configureTextAppearance(doc, fontFamily, fontSize, hexColor, rendered ? 0 : 1);
-
-    // Renderizar o texto
-    doc.text(text, x, y + correction, {
-      width: width,
-      height: height,
-      align: "left",
-    });
-
-    if (rendered) {
-      doc.fillOpacity(1);
-    }
-  } else {
-    // Renderizar diretamente os segmentos em sua posição y original
-    let xPos = x;
-    const lineY = y + correction;
-
-    // Renderizar todos os segmentos em sequência (já temos as linhas quebradas do layout engine)
-    for (let i = 0; i < content.length; i++) {
-      const segment = content[i];
-      const isLastSegment = i === content.length - 1;
-      const isFirstSegment = i === 0;
-
-      const fontFamily = getFontForWord(segment, context.fonts || DEFAULT_FONTS) || "Helvetica";
+  // Um gradiente cobre a caixa do comando de texto
+  const fillColor = resolveFill(doc, color, command.boundingBox);
+
+  // Cada palavra é desenhada onde o layout a posicionou; o PDFKit não quebra nem reflui a linha
+  for (const line of lines) {
+    const lineTop = y + line.top + correction;
+
+    for (const [index, segment] of line.content.entries()) {
+      const xPos = x + line.x[index];
+      const style = segment.style || {};
+      const segmentSize = wordFontSize(segment, fontSize || 16);
+      const baseline = y + line.baseline + wordBaselineShift(segment, fontSize || 16);
+      const fontFamily =
+        getFontForWord(segment, context.fonts || DEFAULT_FONTS, context.registeredFonts) ||
+        "Helvetica";
       const segmentFont = isEmoji(segment.text) ? context.fonts?.emoji : fontFamily;
 
+      // Destaque do trecho: faixa da cor de fundo atrás da palavra, do ascendente ao descendente
+      if (style.backgroundColor) {
+        doc.save();
+        doc
+          .rect(xPos, baseline - segmentSize * 0.8, segment.width, segmentSize)
+          .fill(style.backgroundColor);
+        doc.restore();
+      }
+
       // Verificar se é um emoji
       const { rendered } = await handleEmojiRendering(
         context,
         doc,
         segment.text,
         xPos,
-        lineY,
-        fontSize,
+        lineTop,
+        segmentSize,
         segmentFont || "Helvetica"
       );
 
-      // Configurar aparência do texto
-      configureTextAppearance(doc, segmentFont || "Helvetica", fontSize, hexColor, rendered ? 0 : 1);
+      // Configurar aparência do texto (a cor do trecho substitui a do elemento)
+      configureTextAppearance(
+        doc,
+        segmentFont || "Helvetica",
+        segmentSize,
+        style.color ? resolveFill(doc, style.color, command.boundingBox) : fillColor,
+        rendered ? 0 : 1
+      );
 
       if (context.debugMode) {
         context.logger.debug(`segment.text ${segment.text}`);
         context.logger.debug(`xPos ${xPos}`);
-        context.logger.debug(`lineY ${lineY}`);
+        context.logger.debug(`baseline ${baseline}`);
       }
 
-      // // Skip rendering whitespace-only segments unless they're the first or last segment
-      // if (segment.text.trim() === '' && !isFirstSegment && !isLastSegment) {
-      //   xPos += segment.width;
-      //   continue;
-      // }
-
-      if (isFirstSegment) {
-        doc.text(segment.text, xPos, lineY, {
-          continued: !isLastSegment,
-        });
-      } else {
-        doc.text(segment.text, doc.x, lineY, {
-          continued: !isLastSegment,
-        });
-      }
+      // O espaçamento entre letras já está na largura medida da palavra
+      doc.text(segment.text, xPos, baseline, {
+        lineBreak: false,
+        baseline: "alphabetic",
+        characterSpacing: letterSpacing || 0,
+      });
 
       if (rendered) {
         doc.fillOpacity(1);
       }
 
-      // Avançar a posição manual e explicitamente apenas se não for o último segmento
-      if (!isLastSegment) {
-        xPos += segment.width;
-      }
+      // Linhas de decoração na cor do texto (em gradientes, a cor da primeira parada)
+      const textFill = style.color || color || "#000000";
+      const decorationColor = isGradient(textFill)
+        ? textFill.stops[0]?.color || "#000000"
+        : textFill;
+      drawTextDecorations(doc, segment, xPos, baseline, segmentSize, decorationColor);
+    }
+  }
+}
+
+/**
+ * Sublinhado, tachado e link de uma palavra de texto rico
+ * Desenhados aqui porque as opções equivalentes do PDFKit dependem da quebra de linha dele,
+ * que não é usada: a largura vem da medição feita no layout.
+ */
+function drawTextDecorations(
+  doc: PDFDocument,
+  segment: MeasuredWord,
+  x: number,
+  baseline: number,
+  fontSize: number,
+  color: string
+): void {
+  const style = segment.style;
+  if (!style) return;
+
+  const thickness = Math.max(0.5, fontSize / 16);
+
+  if (style.underline || style.strikethrough) {
+    doc.save();
+    doc.lineWidth(thickness).strokeColor(color);
+    if (style.underline) {
+      doc
+        .moveTo(x, baseline + fontSize * 0.1)
+        .lineTo(x + segment.width, baseline + fontSize * 0.1)
+        .stroke();
     }
+    if (style.strikethrough) {
+      doc
+        .moveTo(x, baseline - fontSize * 0.3)
+        .lineTo(x + segment.width, baseline - fontSize * 0.3)
+        .stroke();
+    }
+    doc.restore();
+  }
+
+  if (style.link) {
+    doc.link(x, baseline - fontSize * 0.8, segment.width, fontSize, style.link);
   }
 }
 